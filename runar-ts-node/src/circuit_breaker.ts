@@ -0,0 +1,175 @@
+import { Result, err, ok } from 'runar-ts-common';
+import { CircuitOpenError } from './errors';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// When requests to a remote service stop being sent (see NodeConfig.withCircuitBreakerPolicy)
+export interface CircuitBreakerPolicy {
+  // false disables the breaker
+  enabled?: boolean;
+  // Consecutive transport failures that open the circuit
+  failureThreshold?: number;
+  // How long an open circuit rejects requests before letting probes through
+  openDurationMs?: number;
+  // Probe requests allowed at the same time while half-open
+  halfOpenMaxRequests?: number;
+}
+
+// Published on $registry/services/{service_path}/circuit_changed
+export interface CircuitChange {
+  peerId: string;
+  servicePath: string;
+  oldState: CircuitState;
+  newState: CircuitState;
+  timestampMs: number;
+  reason: string;
+}
+
+// Listed by $registry/circuits/list
+export interface CircuitInfo {
+  peerId: string;
+  servicePath: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAtMs?: number;
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_OPEN_DURATION_MS = 30_000;
+const DEFAULT_HALF_OPEN_MAX_REQUESTS = 1;
+
+interface Circuit {
+  peerId: string;
+  servicePath: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAtMs?: number;
+  probesInFlight: number;
+}
+
+/**
+ * Circuit breakers for remote services, one per peer and service. A circuit opens
+ * after consecutive transport failures and rejects requests with a CircuitOpenError.
+ * Once the open duration has passed it turns half-open and lets a limited number of
+ * probe requests through: a success closes it again, a failure reopens it.
+ */
+export class CircuitBreakers {
+  private readonly circuits = new Map<string, Circuit>();
+
+  constructor(
+    private readonly defaultPolicy: CircuitBreakerPolicy,
+    private readonly policies: Map<string, CircuitBreakerPolicy>,
+    private readonly onChange: (change: CircuitChange) => void,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  policyFor(servicePath: string): CircuitBreakerPolicy {
+    return this.policies.get(servicePath) ?? this.defaultPolicy;
+  }
+
+  // Whether a request may be sent to the service on the peer
+  admit(peerId: string, servicePath: string): Result<void, string> {
+    const policy = this.policyFor(servicePath);
+    if (policy.enabled === false) return ok(undefined);
+    const circuit = this.circuit(peerId, servicePath);
+
+    if (circuit.state === 'open') {
+      const openDurationMs = policy.openDurationMs ?? DEFAULT_OPEN_DURATION_MS;
+      if (this.now() - (circuit.openedAtMs ?? 0) < openDurationMs) {
+        return err(new CircuitOpenError(peerId, servicePath));
+      }
+      this.transition(circuit, 'half_open', `open for ${openDurationMs}ms`);
+    }
+    if (circuit.state === 'half_open') {
+      const maxProbes = policy.halfOpenMaxRequests ?? DEFAULT_HALF_OPEN_MAX_REQUESTS;
+      if (circuit.probesInFlight >= maxProbes) {
+        return err(new CircuitOpenError(peerId, servicePath));
+      }
+      circuit.probesInFlight++;
+    }
+    return ok(undefined);
+  }
+
+  // The peer answered, even if its handler failed
+  recordSuccess(peerId: string, servicePath: string): void {
+    const circuit = this.circuits.get(this.key(peerId, servicePath));
+    if (!circuit) return;
+    circuit.consecutiveFailures = 0;
+    if (circuit.state === 'half_open') {
+      circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+      this.transition(circuit, 'closed', 'probe request succeeded');
+    }
+  }
+
+  recordFailure(peerId: string, servicePath: string, error: string): void {
+    const policy = this.policyFor(servicePath);
+    if (policy.enabled === false) return;
+    const circuit = this.circuit(peerId, servicePath);
+    circuit.consecutiveFailures++;
+
+    if (circuit.state === 'half_open') {
+      circuit.probesInFlight = Math.max(0, circuit.probesInFlight - 1);
+      this.open(circuit, `probe request failed: ${error}`);
+      return;
+    }
+    const threshold = policy.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    if (circuit.state === 'closed' && circuit.consecutiveFailures >= threshold) {
+      this.open(circuit, `${circuit.consecutiveFailures} consecutive failures: ${error}`);
+    }
+  }
+
+  stateOf(peerId: string, servicePath: string): CircuitState {
+    return this.circuits.get(this.key(peerId, servicePath))?.state ?? 'closed';
+  }
+
+  list(): CircuitInfo[] {
+    return Array.from(this.circuits.values(), circuit => ({
+      peerId: circuit.peerId,
+      servicePath: circuit.servicePath,
+      state: circuit.state,
+      consecutiveFailures: circuit.consecutiveFailures,
+      openedAtMs: circuit.openedAtMs,
+    }));
+  }
+
+  // Drop the circuits of a peer, e.g. when it disconnects
+  forgetPeer(peerId: string): void {
+    for (const [key, circuit] of this.circuits) {
+      if (circuit.peerId === peerId) this.circuits.delete(key);
+    }
+  }
+
+  private open(circuit: Circuit, reason: string): void {
+    circuit.openedAtMs = this.now();
+    this.transition(circuit, 'open', reason);
+  }
+
+  private transition(circuit: Circuit, newState: CircuitState, reason: string): void {
+    const oldState = circuit.state;
+    if (oldState === newState) return;
+    circuit.state = newState;
+    if (newState === 'closed') circuit.openedAtMs = undefined;
+    this.onChange({
+      peerId: circuit.peerId,
+      servicePath: circuit.servicePath,
+      oldState,
+      newState,
+      timestampMs: this.now(),
+      reason,
+    });
+  }
+
+  private circuit(peerId: string, servicePath: string): Circuit {
+    const key = this.key(peerId, servicePath);
+    let circuit = this.circuits.get(key);
+    if (!circuit) {
+      circuit = { peerId, servicePath, state: 'closed', consecutiveFailures: 0, probesInFlight: 0 };
+      this.circuits.set(key, circuit);
+    }
+    return circuit;
+  }
+
+  private key(peerId: string, servicePath: string): string {
+    return `${peerId}|${servicePath}`;
+  }
+}
@@ -1,5 +1,19 @@
 import type { Keys } from 'runar-nodejs-api';
 import type { LabelResolverConfig } from 'runar-ts-serializer';
+import type { TransportFactory } from './transport';
+import type { DiscoveryFactory } from './discovery';
+import type { OutboxConfig } from './outbox';
+import type { RetentionPolicy, TopicRetentionPolicy } from './retention';
+import type { RetainedEventStore } from './retained_store';
+import type { RestartPolicy } from './supervisor';
+import type { PausePolicy } from './pause_gate';
+import type { MetricsConfig } from './metrics';
+import type { HealthConfig } from './health';
+import type { DeadLetterConfig } from './dead_letter';
+import type { ActionRateLimit, RateLimit } from './rate_limit';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from './retry';
+import type { CircuitBreakerPolicy } from './circuit_breaker';
+import type { LoadBalancingStrategy } from './load_balancer';
 
 export interface NetworkConfig {
   bindAddr?: string; // ip:port
@@ -18,6 +32,27 @@ export class NodeConfig {
   public networkConfig?: NetworkConfig;
   public role?: 'frontend' | 'backend'; // TypeScript only - Rust doesn't need this
   private keyManager?: Keys; // Already initialized Keys instance from FFI
+  private transportFactory?: TransportFactory;
+  private discoveryFactory?: DiscoveryFactory;
+  private outboxConfig?: OutboxConfig;
+  private defaultRetentionPolicy: RetentionPolicy = {};
+  private retentionPolicies: TopicRetentionPolicy[] = [];
+  private retentionSweepIntervalMs?: number;
+  private retainedEventStore?: RetainedEventStore;
+  private defaultRestartPolicy: RestartPolicy = { strategy: 'never' };
+  private restartPolicies = new Map<string, RestartPolicy>();
+  private defaultPausePolicy: PausePolicy = { whilePaused: 'reject' };
+  private pausePolicies = new Map<string, PausePolicy>();
+  private metricsConfig: MetricsConfig = {};
+  private healthConfig: HealthConfig = {};
+  private deadLetterConfig: DeadLetterConfig = {};
+  private rateLimits: ActionRateLimit[] = [];
+  private defaultRetryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private retryPolicies = new Map<string, RetryPolicy>();
+  private defaultCircuitBreakerPolicy: CircuitBreakerPolicy = {};
+  private circuitBreakerPolicies = new Map<string, CircuitBreakerPolicy>();
+  private defaultLoadBalancing: LoadBalancingStrategy = 'prefer-local';
+  private loadBalancing = new Map<string, LoadBalancingStrategy>();
 
   constructor(defaultNetworkId: string, labelResolverConfig: LabelResolverConfig) {
     this.defaultNetworkId = defaultNetworkId;
@@ -53,11 +88,221 @@ export class NodeConfig {
     return this;
   }
 
+  // Transport used when networking starts (e.g. native QUIC or in-memory loopback)
+  withTransportFactory(transportFactory: TransportFactory): this {
+    this.transportFactory = transportFactory;
+    return this;
+  }
+
+  // Discovery used when networking starts (e.g. native multicast or in-memory loopback)
+  withDiscoveryFactory(discoveryFactory: DiscoveryFactory): this {
+    this.discoveryFactory = discoveryFactory;
+    return this;
+  }
+
+  // Durable outbox used by publishes with guaranteed_delivery
+  withOutbox(outboxConfig: OutboxConfig): this {
+    this.outboxConfig = outboxConfig;
+    return this;
+  }
+
+  // Retention applied to retained events of topics without a matching topic policy
+  withDefaultRetentionPolicy(policy: RetentionPolicy): this {
+    this.defaultRetentionPolicy = policy;
+    return this;
+  }
+
+  // Retention for topics matching pattern; the first matching pattern added wins
+  withRetentionPolicy(pattern: string, policy: RetentionPolicy): this {
+    this.retentionPolicies = [...this.retentionPolicies, { pattern, policy }];
+    return this;
+  }
+
+  // How often expired retained events are pruned
+  withRetentionSweepInterval(intervalMs: number): this {
+    this.retentionSweepIntervalMs = intervalMs;
+    return this;
+  }
+
+  // Persistence for retained events (in-memory when unset)
+  withRetainedEventStore(store: RetainedEventStore): this {
+    this.retainedEventStore = store;
+    return this;
+  }
+
+  // Restart policy of services without their own policy (never restarts by default)
+  withDefaultRestartPolicy(policy: RestartPolicy): this {
+    this.defaultRestartPolicy = policy;
+    return this;
+  }
+
+  // Restart policy of the service at servicePath
+  withRestartPolicy(servicePath: string, policy: RestartPolicy): this {
+    this.restartPolicies.set(servicePath, policy);
+    return this;
+  }
+
+  // How requests to paused services are handled (rejected by default)
+  withDefaultPausePolicy(policy: PausePolicy): this {
+    this.defaultPausePolicy = policy;
+    return this;
+  }
+
+  // How requests are handled while the service at servicePath is paused
+  withPausePolicy(servicePath: string, policy: PausePolicy): this {
+    this.pausePolicies.set(servicePath, policy);
+    return this;
+  }
+
+  // Retries of remote requests after transport failures (no retries by default)
+  withDefaultRetryPolicy(policy: RetryPolicy): this {
+    this.defaultRetryPolicy = policy;
+    return this;
+  }
+
+  // Retries of remote requests to the service at servicePath
+  withRetryPolicy(servicePath: string, policy: RetryPolicy): this {
+    this.retryPolicies.set(servicePath, policy);
+    return this;
+  }
+
+  // Circuit breaker of remote services without their own policy
+  withDefaultCircuitBreakerPolicy(policy: CircuitBreakerPolicy): this {
+    this.defaultCircuitBreakerPolicy = policy;
+    return this;
+  }
+
+  // Circuit breaker of the remote service at servicePath, per providing peer
+  withCircuitBreakerPolicy(servicePath: string, policy: CircuitBreakerPolicy): this {
+    this.circuitBreakerPolicies.set(servicePath, policy);
+    return this;
+  }
+
+  // How requests choose among the providers of a service (prefer-local by default)
+  withDefaultLoadBalancing(strategy: LoadBalancingStrategy): this {
+    this.defaultLoadBalancing = strategy;
+    return this;
+  }
+
+  // How requests choose among the providers of the service at servicePath
+  withLoadBalancing(servicePath: string, strategy: LoadBalancingStrategy): this {
+    this.loadBalancing.set(servicePath, strategy);
+    return this;
+  }
+
+  // Latency buckets and Prometheus export of the $metrics service
+  withMetrics(metricsConfig: MetricsConfig): this {
+    this.metricsConfig = metricsConfig;
+    return this;
+  }
+
+  // Rate and concurrency limit for the actions matching pattern (wildcards and templates allowed)
+  withRateLimit(pattern: string, limit: RateLimit): this {
+    this.rateLimits = [...this.rateLimits, { pattern, limit }];
+    return this;
+  }
+
+  // Timeout of the service health checks run by $health
+  withHealth(healthConfig: HealthConfig): this {
+    this.healthConfig = healthConfig;
+    return this;
+  }
+
+  // Capture of failed event deliveries as dead letters (on by default)
+  withDeadLetters(deadLetterConfig: DeadLetterConfig): this {
+    this.deadLetterConfig = deadLetterConfig;
+    return this;
+  }
+
   // Getter for key manager (used by Node constructor)
   getKeyManager(): Keys | undefined {
     return this.keyManager;
   }
 
+  getTransportFactory(): TransportFactory | undefined {
+    return this.transportFactory;
+  }
+
+  getDiscoveryFactory(): DiscoveryFactory | undefined {
+    return this.discoveryFactory;
+  }
+
+  getOutboxConfig(): OutboxConfig | undefined {
+    return this.outboxConfig;
+  }
+
+  getDefaultRetentionPolicy(): RetentionPolicy {
+    return this.defaultRetentionPolicy;
+  }
+
+  getRetentionPolicies(): TopicRetentionPolicy[] {
+    return this.retentionPolicies;
+  }
+
+  getRetentionSweepIntervalMs(): number | undefined {
+    return this.retentionSweepIntervalMs;
+  }
+
+  getRetainedEventStore(): RetainedEventStore | undefined {
+    return this.retainedEventStore;
+  }
+
+  getDefaultRestartPolicy(): RestartPolicy {
+    return this.defaultRestartPolicy;
+  }
+
+  getRestartPolicies(): Map<string, RestartPolicy> {
+    return this.restartPolicies;
+  }
+
+  getDefaultPausePolicy(): PausePolicy {
+    return this.defaultPausePolicy;
+  }
+
+  getPausePolicies(): Map<string, PausePolicy> {
+    return this.pausePolicies;
+  }
+
+  getDefaultRetryPolicy(): RetryPolicy {
+    return this.defaultRetryPolicy;
+  }
+
+  getRetryPolicies(): Map<string, RetryPolicy> {
+    return this.retryPolicies;
+  }
+
+  getDefaultCircuitBreakerPolicy(): CircuitBreakerPolicy {
+    return this.defaultCircuitBreakerPolicy;
+  }
+
+  getCircuitBreakerPolicies(): Map<string, CircuitBreakerPolicy> {
+    return this.circuitBreakerPolicies;
+  }
+
+  getDefaultLoadBalancing(): LoadBalancingStrategy {
+    return this.defaultLoadBalancing;
+  }
+
+  getLoadBalancing(): Map<string, LoadBalancingStrategy> {
+    return this.loadBalancing;
+  }
+
+  getMetricsConfig(): MetricsConfig {
+    return this.metricsConfig;
+  }
+
+  getHealthConfig(): HealthConfig {
+    return this.healthConfig;
+  }
+
+  getDeadLetterConfig(): DeadLetterConfig {
+    return this.deadLetterConfig;
+  }
+
+  getRateLimits(): ActionRateLimit[] {
+    return this.rateLimits;
+  }
+
   // Getter for label resolver config
   getLabelResolverConfig(): LabelResolverConfig {
     return this.labelResolverConfig;
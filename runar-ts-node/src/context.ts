@@ -1,12 +1,15 @@
+import { v4 as uuidv4 } from 'uuid';
 import { AnyValue } from 'runar-ts-serializer';
 import { Result, err, ok, Logger, TopicPath } from 'runar-ts-common';
 import {
   ActionHandler,
+  StreamingActionHandler,
   NodeLifecycleContext,
   RequestContext,
   EventContext,
   NodeDelegate,
 } from './service';
+import type { EventSubscriber, EventRegistrationOptions } from './events';
 
 // Implementation of NodeLifecycleContext
 export class NodeLifecycleContextImpl implements NodeLifecycleContext {
@@ -40,10 +43,52 @@ export class NodeLifecycleContextImpl implements NodeLifecycleContext {
     }
   }
 
+  async registerStreamingAction(
+    actionName: string,
+    handler: StreamingActionHandler
+  ): Promise<Result<void, string>> {
+    const actionTopicResult = TopicPath.new(`${this.servicePath}/${actionName}`, this.networkId);
+    if (!actionTopicResult.ok) {
+      return err(`Invalid action topic path: ${actionTopicResult.error}`);
+    }
+    this.node.registry.addLocalStreamHandler(actionTopicResult.value, handler);
+    return ok(undefined);
+  }
+
+  async unregisterAction(actionName: string): Promise<Result<void, string>> {
+    const actionTopicResult = TopicPath.new(`${this.servicePath}/${actionName}`, this.networkId);
+    if (!actionTopicResult.ok) {
+      return err(`Invalid action topic path: ${actionTopicResult.error}`);
+    }
+    this.actionHandlers.delete(actionName);
+    return this.node.unregisterAction(actionTopicResult.value);
+  }
+
   async publish(topic: string, data?: AnyValue): Promise<Result<void, string>> {
     return this.node.publish(topic, data);
   }
 
+  // Subscriptions are registered on behalf of this service, so stopping it removes them
+  async subscribe(
+    topic: string,
+    callback: EventSubscriber,
+    options?: EventRegistrationOptions
+  ): Promise<Result<string, string>> {
+    const serviceTopicResult = TopicPath.newService(this.networkId, this.servicePath);
+    if (!serviceTopicResult.ok) {
+      return err(`Invalid service topic path: ${serviceTopicResult.error}`);
+    }
+    return this.node.subscribeForService(serviceTopicResult.value, topic, callback, options);
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<Result<void, string>> {
+    const serviceTopicResult = TopicPath.newService(this.networkId, this.servicePath);
+    if (!serviceTopicResult.ok) {
+      return err(`Invalid service topic path: ${serviceTopicResult.error}`);
+    }
+    return this.node.unsubscribeForService(serviceTopicResult.value, subscriptionId);
+  }
+
   // Method to get registered action handlers (for the registry to access)
   getActionHandlers(): Map<string, ActionHandler> {
     return this.actionHandlers;
@@ -56,21 +101,25 @@ export class RequestContextImpl implements RequestContext {
   node: NodeDelegate;
   logger: Logger;
   pathParams: Map<string, string>;
+  signal: AbortSignal;
 
   constructor(
     topicPath: TopicPath,
     node: NodeDelegate,
     logger: Logger,
-    pathParams?: Map<string, string>
+    pathParams?: Map<string, string>,
+    signal?: AbortSignal
   ) {
     this.topicPath = topicPath;
     this.node = node;
     this.logger = logger;
     this.pathParams = pathParams || new Map();
+    this.signal = signal ?? new AbortController().signal;
   }
 
+  // Nested requests are cancelled together with the request that issued them
   async request<P = unknown>(topic: string, payload?: P): Promise<Result<AnyValue, string>> {
-    return this.node.request(topic, payload);
+    return this.node.request(topic, payload, { signal: this.signal });
   }
 
   async publish(topic: string, data?: AnyValue): Promise<Result<void, string>> {
@@ -99,7 +148,10 @@ export class EventContextImpl implements EventContext {
   constructor(
     public readonly topicPath: TopicPath,
     public readonly node: NodeDelegate,
-    public readonly logger: Logger
+    public readonly logger: Logger,
+    public readonly pathParams: Map<string, string> = new Map(),
+    public readonly deliveryId: string = uuidv4(),
+    public readonly timestampMs: number = Date.now()
   ) {}
 
   async publish(topic: string, data?: AnyValue): Promise<Result<void, string>> {
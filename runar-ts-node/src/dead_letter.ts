@@ -0,0 +1,79 @@
+import type { AnyValue } from 'runar-ts-serializer';
+
+// Dead letters kept for $deadletter/list and $deadletter/replay (see NodeConfig.withDeadLetters)
+export interface DeadLetterConfig {
+  // false stops capturing failed deliveries
+  enabled?: boolean;
+  // Oldest dead letters are dropped beyond this (default DEFAULT_DEAD_LETTER_MAX_ENTRIES)
+  maxEntries?: number;
+}
+
+export const DEFAULT_DEAD_LETTER_MAX_ENTRIES = 1000;
+
+// Failed deliveries are published on $deadletter/<original topic>
+export const DEAD_LETTER_SERVICE_PATH = '$deadletter';
+
+// An event a local subscriber failed to handle, after its retries
+export interface DeadLetter {
+  id: string;
+  // Topic the event was published on, e.g. orders/created
+  topic: string;
+  subscriptionId: string;
+  error: string;
+  payload?: AnyValue;
+  deliveryId: string;
+  // Delivery attempts so far, replays included
+  attempts: number;
+  failedAtMs: number;
+}
+
+// Outcome of $deadletter/replay
+export interface DeadLetterReplay {
+  replayed: string[];
+  failed: Array<{ id: string; error: string }>;
+}
+
+/**
+ * Bounded in-memory store of dead letters, oldest first.
+ */
+export class DeadLetters {
+  private readonly letters = new Map<string, DeadLetter>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries: number = DEFAULT_DEAD_LETTER_MAX_ENTRIES) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  add(letter: DeadLetter): void {
+    this.letters.delete(letter.id);
+    this.letters.set(letter.id, letter);
+    while (this.letters.size > this.maxEntries) {
+      this.letters.delete(this.letters.keys().next().value!);
+    }
+  }
+
+  get(id: string): DeadLetter | undefined {
+    return this.letters.get(id);
+  }
+
+  list(): DeadLetter[] {
+    return Array.from(this.letters.values());
+  }
+
+  remove(id: string): boolean {
+    return this.letters.delete(id);
+  }
+
+  // Record another failed attempt of a dead letter (e.g. a failed replay)
+  recordFailure(id: string, error: string, now: number = Date.now()): void {
+    const letter = this.letters.get(id);
+    if (!letter) return;
+    letter.attempts++;
+    letter.error = error;
+    letter.failedAtMs = now;
+  }
+
+  get size(): number {
+    return this.letters.size;
+  }
+}
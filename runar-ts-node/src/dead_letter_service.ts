@@ -0,0 +1,103 @@
+import { Result, ok, err } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+import { AbstractService, NodeLifecycleContext } from './service';
+import { DEAD_LETTER_SERVICE_PATH, DeadLetter, DeadLetterReplay, DeadLetters } from './dead_letter';
+import { errorMessage, toAnyValue } from './helpers';
+
+/**
+ * Internal service for the node's dead letters: $deadletter/list returns them and
+ * $deadletter/replay redelivers them to their subscriptions (one id as payload, or
+ * every dead letter without one). Replayed dead letters are removed once delivered.
+ */
+export class DeadLetterService implements AbstractService {
+  private _networkId?: string;
+
+  constructor(
+    private readonly deadLetters: DeadLetters,
+    private readonly replay: (letter: DeadLetter) => Promise<Result<void, string>>
+  ) {}
+
+  name(): string {
+    return 'Dead Letters';
+  }
+  version(): string {
+    return '1.0.0';
+  }
+  path(): string {
+    return DEAD_LETTER_SERVICE_PATH;
+  }
+  description(): string {
+    return 'Event deliveries that failed, with list and replay';
+  }
+  networkId(): string | undefined {
+    return this._networkId;
+  }
+  setNetworkId(networkId: string): void {
+    this._networkId = networkId;
+  }
+
+  async init(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    const list = await context.registerAction('list', async (): Promise<Result<AnyValue, string>> =>
+      toAnyValue(this.deadLetters.list().map(letterValue))
+    );
+    if (!list.ok) {
+      return err(`Failed to register ${DEAD_LETTER_SERVICE_PATH}/list: ${list.error}`);
+    }
+
+    const replay = await context.registerAction(
+      'replay',
+      async (payload): Promise<Result<AnyValue, string>> => {
+        const id = payload.isNull() ? undefined : payload.as<string>();
+        if (id !== undefined && !id.ok) return err(`Invalid dead letter id: ${id.error.message}`);
+        if (id !== undefined && !this.deadLetters.get(id.value)) {
+          return err(`Dead letter not found: ${id.value}`);
+        }
+        const outcome = await this.replayLetters(id?.value);
+        return toAnyValue({ replayed: outcome.replayed, failed: outcome.failed });
+      }
+    );
+    if (!replay.ok) {
+      return err(`Failed to register ${DEAD_LETTER_SERVICE_PATH}/replay: ${replay.error}`);
+    }
+    return ok(undefined);
+  }
+
+  async start(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+
+  async stop(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+
+  private async replayLetters(id?: string): Promise<DeadLetterReplay> {
+    const letters = id !== undefined ? [this.deadLetters.get(id)!] : this.deadLetters.list();
+    const outcome: DeadLetterReplay = { replayed: [], failed: [] };
+    for (const letter of letters) {
+      const result = await this.replay(letter);
+      if (result.ok) {
+        this.deadLetters.remove(letter.id);
+        outcome.replayed.push(letter.id);
+      } else {
+        this.deadLetters.recordFailure(letter.id, errorMessage(result.error));
+        outcome.failed.push({ id: letter.id, error: errorMessage(result.error) });
+      }
+    }
+    return outcome;
+  }
+}
+
+// Wire form of a dead letter, as returned by $deadletter/list
+export function letterValue(letter: DeadLetter): unknown {
+  const payload = letter.payload?.as<unknown>();
+  return {
+    id: letter.id,
+    topic: letter.topic,
+    subscription_id: letter.subscriptionId,
+    error: letter.error,
+    payload: payload?.ok ? payload.value : null,
+    delivery_id: letter.deliveryId,
+    attempts: letter.attempts,
+    failed_at_ms: letter.failedAtMs,
+  };
+}
@@ -1,4 +1,5 @@
 import type { Discovery as NativeDiscovery, Keys as NativeKeys } from 'runar-nodejs-api';
+import type { Logger } from 'runar-ts-common';
 
 /**
  * Discovery interface for peer discovery
@@ -12,6 +13,20 @@ export interface NodeDiscovery {
   updateLocalPeerInfo(peerInfoCbor: Uint8Array): Promise<void>;
 }
 
+/**
+ * Everything a discovery implementation needs from the node that owns it
+ */
+export interface DiscoveryFactoryOptions {
+  nodeId: string;
+  nodePublicKey: Uint8Array;
+  logger: Logger;
+}
+
+/**
+ * Factory used by the Node to create its discovery when networking starts
+ */
+export type DiscoveryFactory = (options: DiscoveryFactoryOptions) => NodeDiscovery;
+
 /**
  * Concrete implementation that wraps the native Discovery
  */
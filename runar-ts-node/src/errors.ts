@@ -0,0 +1,133 @@
+/**
+ * Error types carried in the Result values returned by the Node.
+ *
+ * Node APIs keep their Result<T, string> signatures, so callers use the
+ * is*Error guards below to tell these failures apart from handler errors.
+ */
+
+// Returned when a request does not complete before its deadline
+export class RequestTimeoutError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`Request to ${path} timed out after ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+// Returned when the caller aborts a request through its AbortSignal
+export class RequestCancelledError extends Error {
+  constructor(public readonly path: string) {
+    super(`Request to ${path} was cancelled`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+// Recorded by Node.start() for the services of a dependency cycle
+export class ServiceDependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Service dependency cycle: ${cycle.join(' -> ')}`);
+    this.name = 'ServiceDependencyCycleError';
+  }
+}
+
+// Recorded for a service that was not started because a dependency failed or is missing
+export class ServiceDependencyError extends Error {
+  constructor(
+    public readonly servicePath: string,
+    public readonly dependencies: string[]
+  ) {
+    super(
+      `Service ${servicePath} not started: dependency ${dependencies.join(', ')} failed or is not registered`
+    );
+    this.name = 'ServiceDependencyError';
+  }
+}
+
+// Returned for requests to a paused service that are rejected rather than queued
+export class ServicePausedError extends Error {
+  constructor(
+    public readonly servicePath: string,
+    detail?: string
+  ) {
+    super(`Service ${servicePath} is paused${detail ? `: ${detail}` : ''}`);
+    this.name = 'ServicePausedError';
+  }
+}
+
+// Returned right away for requests beyond the rate or concurrency limit of their action
+export class RateLimitExceededError extends Error {
+  constructor(
+    public readonly actionPath: string,
+    public readonly pattern: string,
+    public readonly callerKey: string,
+    public readonly limit: string
+  ) {
+    super(`Rate limit exceeded for ${actionPath} (${pattern}, caller ${callerKey}): ${limit}`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+// Returned when a remote request fails in the transport (peer unreachable, connection lost)
+export class TransportError extends Error {
+  constructor(
+    public readonly peerId: string,
+    public readonly path: string,
+    detail: string
+  ) {
+    super(`Transport failure sending ${path} to peer ${peerId}: ${detail}`);
+    this.name = 'TransportError';
+  }
+}
+
+// Failure reported by the node serving a remote request (routing, payload or handler)
+export class RemoteHandlerError extends Error {
+  constructor(detail: string) {
+    super(detail);
+    this.name = 'RemoteHandlerError';
+  }
+}
+
+// Returned without contacting the peer while its circuit for the service is open
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly peerId: string,
+    public readonly servicePath: string
+  ) {
+    super(`Circuit for ${servicePath} on peer ${peerId} is open`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export function isRequestTimeoutError(error: unknown): error is RequestTimeoutError {
+  return error instanceof RequestTimeoutError;
+}
+
+export function isRequestCancelledError(error: unknown): error is RequestCancelledError {
+  return error instanceof RequestCancelledError;
+}
+
+export function isServiceDependencyError(error: unknown): error is ServiceDependencyError {
+  return error instanceof ServiceDependencyError;
+}
+
+export function isServicePausedError(error: unknown): error is ServicePausedError {
+  return error instanceof ServicePausedError;
+}
+
+export function isRateLimitExceededError(error: unknown): error is RateLimitExceededError {
+  return error instanceof RateLimitExceededError;
+}
+
+export function isTransportError(error: unknown): error is TransportError {
+  return error instanceof TransportError;
+}
+
+export function isRemoteHandlerError(error: unknown): error is RemoteHandlerError {
+  return error instanceof RemoteHandlerError;
+}
+
+export function isCircuitOpenError(error: unknown): error is CircuitOpenError {
+  return error instanceof CircuitOpenError;
+}
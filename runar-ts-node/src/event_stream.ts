@@ -0,0 +1,95 @@
+import type { AnyValue } from 'runar-ts-serializer';
+import type { TopicPath } from 'runar-ts-common';
+
+// What happens to an event arriving while the buffer is full
+export type EventOverflow = 'drop-oldest' | 'block';
+
+// Options of Node.events()
+export interface EventStreamOptions {
+  // Start with the retained events matching the topic
+  includePast?: boolean;
+  // Events buffered while the consumer is busy (default DEFAULT_EVENT_BUFFER_SIZE)
+  bufferSize?: number;
+  // 'drop-oldest' (the default) discards the oldest buffered event; 'block' makes the
+  // delivery wait for room, which holds up the publisher
+  overflow?: EventOverflow;
+  // Aborting ends the iteration and removes the subscription
+  signal?: AbortSignal;
+}
+
+// Event yielded by Node.events()
+export interface StreamedEvent {
+  // Topic the event was published on
+  topicPath: TopicPath;
+  payload?: AnyValue;
+  timestampMs: number;
+}
+
+export const DEFAULT_EVENT_BUFFER_SIZE = 100;
+
+/**
+ * Bounded queue between event delivery and an async iterator. Items pushed while a
+ * reader waits are handed over directly; otherwise they are buffered up to the
+ * capacity and then dropped or blocked according to the overflow mode.
+ */
+export class EventBuffer<T> {
+  private readonly items: T[] = [];
+  // Pushes waiting for room ('block')
+  private readonly blocked: Array<{ item: T; resolve: () => void }> = [];
+  private readonly readers: Array<(result: IteratorResult<T>) => void> = [];
+  private readonly capacity: number;
+  private closed = false;
+  // Events discarded by 'drop-oldest'
+  dropped = 0;
+
+  constructor(
+    capacity: number = DEFAULT_EVENT_BUFFER_SIZE,
+    private readonly overflow: EventOverflow = 'drop-oldest'
+  ) {
+    this.capacity = Math.max(1, capacity);
+  }
+
+  // Resolves once the item is buffered (at once unless blocked for room)
+  push(item: T): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    const reader = this.readers.shift();
+    if (reader) {
+      reader({ value: item, done: false });
+      return Promise.resolve();
+    }
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+      return Promise.resolve();
+    }
+    if (this.overflow === 'drop-oldest') {
+      this.items.shift();
+      this.items.push(item);
+      this.dropped++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.blocked.push({ item, resolve }));
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.items.length > 0) {
+      const value = this.items.shift()!;
+      const waiting = this.blocked.shift();
+      if (waiting) {
+        this.items.push(waiting.item);
+        waiting.resolve();
+      }
+      return Promise.resolve({ value, done: false });
+    }
+    if (this.closed) return Promise.resolve({ value: undefined, done: true });
+    return new Promise(resolve => this.readers.push(resolve));
+  }
+
+  // End the iteration; buffered and blocked items are discarded
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.items.length = 0;
+    for (const waiting of this.blocked.splice(0)) waiting.resolve();
+    for (const reader of this.readers.splice(0)) reader({ value: undefined, done: true });
+  }
+}
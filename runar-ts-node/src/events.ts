@@ -6,6 +6,7 @@ export interface EventMessage {
   event: string;
   payload?: AnyValue;
   timestampMs?: number;
+  deliveryId?: string;
 }
 
 // Event handler types
@@ -31,6 +32,12 @@ export interface EventContext {
   node: NodeDelegate;
   networkId?: string;
   logger: Logger;
+  // Params bound by template segments of the subscription (e.g. {id})
+  pathParams: Map<string, string>;
+  // Id of this event; redeliveries of a guaranteed event reuse it
+  deliveryId: string;
+  // When the event was published (for events from a peer, when it arrived)
+  timestampMs: number;
 
   // Event publishing
   publish(topic: string, data?: AnyValue): Promise<Result<void, string>>;
@@ -43,6 +50,8 @@ export interface EventContext {
 // Event registration options
 export interface EventRegistrationOptions {
   includePast?: boolean;
+  // Retries of a failed delivery before it becomes a dead letter (local subscriptions)
+  retry?: RetryPolicy;
 }
 
 // Publish options
@@ -58,6 +67,7 @@ export interface PublishOptions {
 import { Result } from 'runar-ts-common';
 import { TopicPath, Logger } from 'runar-ts-common';
 import { NodeDelegate } from './service';
+import type { RetryPolicy } from './retry';
 
 // Re-export Duration for convenience
 export type Duration = {
@@ -0,0 +1,159 @@
+import { Result, err } from 'runar-ts-common';
+import { ServiceEntry, ServiceState } from './service';
+import { errorMessage } from './helpers';
+import type { DeviceKeystoreCaps } from './keys_manager_wrapper';
+import type { QuicTransport } from './transport';
+
+// Health settings (see NodeConfig.withHealth)
+export interface HealthConfig {
+  // A service healthCheck() that takes longer than this counts as failed
+  checkTimeoutMs?: number;
+}
+
+export const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 2000;
+
+export type HealthStatus = 'up' | 'down';
+
+export interface ComponentHealth {
+  // service:{service_path}, transport or keystore
+  component: string;
+  status: HealthStatus;
+  detail?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAtMs: number;
+  components: ComponentHealth[];
+}
+
+export interface KeystoreHealthSource {
+  getKeystoreState(): number;
+  getKeystoreCaps(): DeviceKeystoreCaps;
+}
+
+// What the node exposes to the health checks
+export interface HealthSources {
+  getLocalServices(): ServiceEntry[];
+  // False when the node has no transport configured; the transport is then not checked
+  networkingEnabled(): boolean;
+  // Undefined until networking has started
+  getTransport(): QuicTransport | undefined;
+  getPeerIds(): string[];
+  keystore: KeystoreHealthSource;
+}
+
+/**
+ * Liveness and readiness of the node. A node is live while none of its services
+ * is in Error and every healthCheck() passes. It is ready when, in addition, all
+ * services are Running, the transport reaches its peers and the keystore can
+ * encrypt and decrypt.
+ */
+export class HealthMonitor {
+  private readonly checkTimeoutMs: number;
+
+  constructor(
+    private readonly sources: HealthSources,
+    config: HealthConfig = {}
+  ) {
+    this.checkTimeoutMs = config.checkTimeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+  }
+
+  async liveness(): Promise<HealthReport> {
+    const services = await Promise.all(
+      this.sources.getLocalServices().map(entry => this.serviceHealth(entry, false))
+    );
+    return report(services);
+  }
+
+  async readiness(): Promise<HealthReport> {
+    const services = await Promise.all(
+      this.sources.getLocalServices().map(entry => this.serviceHealth(entry, true))
+    );
+    const transport = await this.transportHealth();
+    return report([...services, ...(transport ? [transport] : []), this.keystoreHealth()]);
+  }
+
+  private async serviceHealth(entry: ServiceEntry, ready: boolean): Promise<ComponentHealth> {
+    const component = `service:${entry.service.path()}`;
+    const state = entry.serviceState;
+    if (state === ServiceState.Error) {
+      return down(component, entry.lastError ?? 'service is in Error');
+    }
+    if (ready && state !== ServiceState.Running) {
+      return down(component, `service is ${state}`);
+    }
+    // Only running services are asked; a paused service is live but not ready
+    if (state !== ServiceState.Running || !entry.service.healthCheck) {
+      return { component, status: 'up', detail: state };
+    }
+
+    const result = await this.runCheck(() => entry.service.healthCheck!());
+    return result.ok
+      ? { component, status: 'up', detail: state }
+      : down(component, errorMessage(result.error));
+  }
+
+  private async transportHealth(): Promise<ComponentHealth | undefined> {
+    if (!this.sources.networkingEnabled()) return undefined;
+    const transport = this.sources.getTransport();
+    if (!transport) return down('transport', 'networking is not started');
+
+    const peerIds = this.sources.getPeerIds();
+    if (peerIds.length === 0) return { component: 'transport', status: 'up', detail: 'no peers' };
+    const connected = await Promise.all(
+      peerIds.map(peerId => transport.isConnected(peerId).catch(() => false))
+    );
+    const count = connected.filter(Boolean).length;
+    const detail = `connected to ${count} of ${peerIds.length} peers`;
+    return count > 0 ? { component: 'transport', status: 'up', detail } : down('transport', detail);
+  }
+
+  private keystoreHealth(): ComponentHealth {
+    try {
+      const state = this.sources.keystore.getKeystoreState();
+      const caps = this.sources.keystore.getKeystoreCaps();
+      const detail =
+        `state ${state}, encrypt ${caps.canEncrypt}, decrypt ${caps.canDecrypt}, ` +
+        `network keys ${caps.hasNetworkKeys}, profile keys ${caps.hasProfileKeys}`;
+      return caps.canEncrypt && caps.canDecrypt
+        ? { component: 'keystore', status: 'up', detail }
+        : down('keystore', detail);
+    } catch (error) {
+      return down('keystore', errorMessage(error));
+    }
+  }
+
+  // Run a healthCheck() hook, turning throws and timeouts into failures
+  private async runCheck(
+    check: () => Promise<Result<void, string>>
+  ): Promise<Result<void, string>> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<Result<void, string>>(resolve => {
+      timer = setTimeout(
+        () => resolve(err(`health check timed out after ${this.checkTimeoutMs}ms`)),
+        this.checkTimeoutMs
+      );
+    });
+    const checked = Promise.resolve()
+      .then(check)
+      .catch((error): Result<void, string> => err(errorMessage(error)));
+    try {
+      return await Promise.race([checked, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+function report(components: ComponentHealth[]): HealthReport {
+  return {
+    status: components.every(c => c.status === 'up') ? 'up' : 'down',
+    checkedAtMs: Date.now(),
+    components,
+  };
+}
+
+function down(component: string, detail: string): ComponentHealth {
+  return { component, status: 'down', detail };
+}
@@ -0,0 +1,73 @@
+import { Result, ok, err } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+import { AbstractService, NodeLifecycleContext } from './service';
+import { HealthMonitor, HealthReport } from './health';
+import { toAnyValue } from './helpers';
+
+/**
+ * Internal service exposing the node's liveness ($health/live) and readiness
+ * ($health/ready) with the status of every component.
+ */
+export class HealthService implements AbstractService {
+  private _networkId?: string;
+
+  constructor(private readonly monitor: HealthMonitor) {}
+
+  name(): string {
+    return 'Health';
+  }
+  version(): string {
+    return '1.0.0';
+  }
+  path(): string {
+    return '$health';
+  }
+  description(): string {
+    return 'Liveness and readiness of the local node';
+  }
+  networkId(): string | undefined {
+    return this._networkId;
+  }
+  setNetworkId(networkId: string): void {
+    this._networkId = networkId;
+  }
+
+  async init(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    const probes: Array<[string, () => Promise<HealthReport>]> = [
+      ['live', (): Promise<HealthReport> => this.monitor.liveness()],
+      ['ready', (): Promise<HealthReport> => this.monitor.readiness()],
+    ];
+
+    for (const [name, probe] of probes) {
+      const result = await context.registerAction(
+        name,
+        async (): Promise<Result<AnyValue, string>> => toAnyValue(reportValue(await probe()))
+      );
+      if (!result.ok) {
+        return err(`Failed to register $health/${name}: ${result.error}`);
+      }
+    }
+    return ok(undefined);
+  }
+
+  async start(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+
+  async stop(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+}
+
+// Wire form of a HealthReport, as returned by $health/live and $health/ready
+function reportValue(report: HealthReport): unknown {
+  return {
+    status: report.status,
+    checked_at_ms: report.checkedAtMs,
+    components: report.components.map(c => ({
+      component: c.component,
+      status: c.status,
+      detail: c.detail ?? null,
+    })),
+  };
+}
@@ -0,0 +1,19 @@
+import { Result, ok, err } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+
+// Message of a thrown value or Result error (Result errors are Error objects at runtime,
+// even when typed as string)
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Error to throw for a Result error, e.g. from an iterator
+export function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+// Wrap a plain value, e.g. an action response with snake_case keys, in an AnyValue
+export function toAnyValue(value: unknown): Result<AnyValue, string> {
+  const av = AnyValue.from(value);
+  return av.ok ? ok(av.value as AnyValue) : err(av.error.message);
+}
@@ -5,6 +5,67 @@ export { ServiceRegistry } from './registry';
 export { KeysService } from './keys_service';
 export { RegistryService } from './registry_service';
 export { KeysManagerWrapper } from './keys_manager_wrapper';
+export { NetworkMessageType, peerIdFromPublicKey } from './transport';
+export { LoopbackNetwork, LoopbackTransport, LoopbackDiscovery } from './loopback';
+export {
+  RequestTimeoutError,
+  RequestCancelledError,
+  isRequestTimeoutError,
+  isRequestCancelledError,
+  ServiceDependencyCycleError,
+  ServiceDependencyError,
+  isServiceDependencyError,
+  ServicePausedError,
+  isServicePausedError,
+  RateLimitExceededError,
+  isRateLimitExceededError,
+  TransportError,
+  isTransportError,
+  RemoteHandlerError,
+  isRemoteHandlerError,
+  CircuitOpenError,
+  isCircuitOpenError,
+} from './errors';
+export { ServiceDependencyGraph } from './service_graph';
+export { Supervisor } from './supervisor';
+export type { PausePolicy } from './pause_gate';
+export type {
+  MetricsConfig,
+  MetricsSnapshot,
+  ActionMetrics,
+  EventMetrics,
+  LatencyHistogram,
+} from './metrics';
+export type {
+  HealthConfig,
+  HealthStatus,
+  HealthReport,
+  ComponentHealth,
+  HealthSources,
+  KeystoreHealthSource,
+} from './health';
+export type { ServiceStateControl } from './registry_service';
+export { PauseGate } from './pause_gate';
+export { NodeMetrics, DEFAULT_LATENCY_BUCKETS_MS } from './metrics';
+export { MetricsService } from './metrics_service';
+export { HealthMonitor, DEFAULT_HEALTH_CHECK_TIMEOUT_MS } from './health';
+export { HealthService } from './health_service';
+export { MiddlewareChain, composeMiddleware } from './middleware';
+export { Outbox } from './outbox';
+export { RetentionPolicies } from './retention';
+export { RateLimiter } from './rate_limit';
+export { withRetries, retryDelayMs, DEFAULT_RETRY_POLICY } from './retry';
+export { CircuitBreakers } from './circuit_breaker';
+export { ServiceProviders, LOCAL_PROVIDER_ID } from './load_balancer';
+export { StreamSessions, iterateWithSignal, DEFAULT_STREAM_MAX_CHUNKS } from './stream';
+export { EventBuffer, DEFAULT_EVENT_BUFFER_SIZE } from './event_stream';
+export {
+  DeadLetters,
+  DEAD_LETTER_SERVICE_PATH,
+  DEFAULT_DEAD_LETTER_MAX_ENTRIES,
+} from './dead_letter';
+export { DeadLetterService } from './dead_letter_service';
+export { InMemoryRetainedEventStore, FileRetainedEventStore } from './retained_store';
 
 // Re-export types
 export type {
@@ -12,12 +73,46 @@ export type {
   ServiceState,
   NodeLifecycleContext,
   RequestContext,
+  RequestOptions,
   EventContext,
   ServiceEntry,
   NodeDelegate,
   ActionHandler,
+  StreamingActionHandler,
+  ServiceStartReport,
 } from './service';
 
+export type { RequestMiddleware, RequestNext } from './middleware';
+export type { SubscriberMatch, ServiceStateChange, ServiceStateListener } from './registry';
+export type { ServiceDependencies, ServiceGraphTask } from './service_graph';
+export type {
+  RestartPolicy,
+  RestartStrategy,
+  RestartEvent,
+  RestartEventKind,
+  SupervisorHooks,
+} from './supervisor';
+export type { RetentionPolicy, TopicRetentionPolicy } from './retention';
+export type { RateLimit, ActionRateLimit, CallerIdentity } from './rate_limit';
+export type { RetryPolicy } from './retry';
+export type {
+  LoadBalancingStrategy,
+  LoadBalancer,
+  ServiceProvider,
+  ProviderSelection,
+} from './load_balancer';
+export type {
+  CircuitState,
+  CircuitBreakerPolicy,
+  CircuitChange,
+  CircuitInfo,
+} from './circuit_breaker';
+export type { StreamFrame, StreamPull } from './stream';
+export type { EventOverflow, EventStreamOptions, StreamedEvent } from './event_stream';
+export type { DeadLetter, DeadLetterConfig, DeadLetterReplay } from './dead_letter';
+export type { RetainedEventStore, StoredRetainedEvent } from './retained_store';
+export type { OutboxConfig, OutboxEntry, OutboxDeliveryResult, OutboxDeliver } from './outbox';
+
 export type {
   EventMessage,
   EventSubscriber,
@@ -25,5 +120,16 @@ export type {
   EventRegistrationOptions,
 } from './events';
 
+export type {
+  QuicTransport,
+  NetworkMessage,
+  NetworkMessageHandler,
+  ResponseFrame,
+  TransportFactory,
+  TransportFactoryOptions,
+} from './transport';
+
+export type { NodeDiscovery, DiscoveryFactory, DiscoveryFactoryOptions } from './discovery';
+
 // Re-export context implementations
 export { NodeLifecycleContextImpl, RequestContextImpl, EventContextImpl } from './context';
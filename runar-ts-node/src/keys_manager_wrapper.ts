@@ -241,7 +241,7 @@ export class KeysWrapperMobile implements CommonKeysInterface {
 
 // Node keystore wrapper - handles network keys and node-specific operations
 export class KeysWrapperNode implements CommonKeysInterface {
-  private readonly keys: Keys;
+  protected readonly keys: Keys;
   private readonly role = 'backend' as const;
   private labelMappings: Map<string, { networkPublicKey?: Uint8Array; userKeySpec?: any }> =
     new Map();
@@ -411,6 +411,18 @@ export class KeysWrapperNode implements CommonKeysInterface {
   }
 }
 
+// Node keystore used by Node for serialization and the $keys service
+export class KeysManagerWrapper extends KeysWrapperNode {
+  // Public key of the network's data key; empty until the network key is installed
+  getNetworkPublicKey(networkId: string): Uint8Array {
+    try {
+      return new Uint8Array(this.keys.nodeGetNetworkPublicKey(networkId));
+    } catch {
+      return new Uint8Array(0);
+    }
+  }
+}
+
 // Factory class for creating role-specific keystore wrappers
 export class KeystoreFactory {
   /**
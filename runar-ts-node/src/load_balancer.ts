@@ -0,0 +1,125 @@
+// Id of the local node among the providers of a service
+export const LOCAL_PROVIDER_ID = 'local';
+
+// A node able to serve requests for a service: this node or a peer
+export interface ServiceProvider {
+  // LOCAL_PROVIDER_ID or the peer node id
+  id: string;
+  local: boolean;
+  // Requests sent to the provider for this service that have not completed yet
+  outstanding: number;
+}
+
+export interface ProviderSelection {
+  servicePath: string;
+  routingKey?: string;
+}
+
+// Custom provider choice; providers is never empty
+export interface LoadBalancer {
+  select(providers: ServiceProvider[], selection: ProviderSelection): ServiceProvider;
+}
+
+// How a provider is chosen (see NodeConfig.withLoadBalancing)
+export type LoadBalancingStrategy =
+  'prefer-local' | 'round-robin' | 'least-outstanding' | 'random' | LoadBalancer;
+
+/**
+ * Provider set per service. Picks the provider of each request using the service's
+ * load balancing strategy and counts the requests outstanding per provider. Requests
+ * with a routing key always go to the same provider while it stays available
+ * (rendezvous hashing), whatever the strategy.
+ */
+export class ServiceProviders {
+  private readonly cursors = new Map<string, number>();
+  private readonly outstanding = new Map<string, number>();
+
+  constructor(
+    private readonly defaultStrategy: LoadBalancingStrategy,
+    private readonly strategies: Map<string, LoadBalancingStrategy>,
+    private readonly random: () => number = Math.random
+  ) {}
+
+  strategyFor(servicePath: string): LoadBalancingStrategy {
+    return this.strategies.get(servicePath) ?? this.defaultStrategy;
+  }
+
+  /**
+   * Choose among the provider ids of the service, given in preference order (the
+   * local node first). Returns undefined when there is no provider.
+   */
+  select(
+    servicePath: string,
+    providerIds: string[],
+    routingKey?: string
+  ): ServiceProvider | undefined {
+    if (providerIds.length === 0) return undefined;
+    const providers = providerIds.map(id => ({
+      id,
+      local: id === LOCAL_PROVIDER_ID,
+      outstanding: this.outstanding.get(this.key(servicePath, id)) ?? 0,
+    }));
+    if (routingKey !== undefined) return sticky(providers, routingKey);
+
+    const strategy = this.strategyFor(servicePath);
+    switch (strategy) {
+      case 'prefer-local':
+        return providers.find(p => p.local) ?? this.roundRobin(servicePath, providers);
+      case 'round-robin':
+        return this.roundRobin(servicePath, providers);
+      case 'least-outstanding':
+        return providers.reduce((best, p) => (p.outstanding < best.outstanding ? p : best));
+      case 'random':
+        return providers[Math.floor(this.random() * providers.length)]!;
+      default:
+        return strategy.select(providers, { servicePath, routingKey });
+    }
+  }
+
+  // Count a request to the provider until the returned callback runs
+  begin(servicePath: string, providerId: string): () => void {
+    const key = this.key(servicePath, providerId);
+    this.outstanding.set(key, (this.outstanding.get(key) ?? 0) + 1);
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      const remaining = (this.outstanding.get(key) ?? 1) - 1;
+      if (remaining > 0) this.outstanding.set(key, remaining);
+      else this.outstanding.delete(key);
+    };
+  }
+
+  private roundRobin(servicePath: string, providers: ServiceProvider[]): ServiceProvider {
+    const cursor = this.cursors.get(servicePath) ?? 0;
+    this.cursors.set(servicePath, cursor + 1);
+    return providers[cursor % providers.length]!;
+  }
+
+  private key(servicePath: string, providerId: string): string {
+    return `${servicePath}|${providerId}`;
+  }
+}
+
+// Highest hash of key and provider id wins, so removing a provider only moves its own keys
+function sticky(providers: ServiceProvider[], routingKey: string): ServiceProvider {
+  let best = providers[0]!;
+  let bestScore = -1;
+  for (const provider of providers) {
+    const score = fnv1a(`${routingKey}|${provider.id}`);
+    if (score > bestScore) {
+      best = provider;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,290 @@
+import { encode, decode } from 'cbor-x';
+import type { Logger } from 'runar-ts-common';
+import type { NodeInfo } from 'runar-ts-schemas';
+import {
+  QuicTransport,
+  NetworkMessage,
+  NetworkMessageType,
+  TransportFactory,
+  TransportFactoryOptions,
+  peerIdFromPublicKey,
+} from './transport';
+import { NodeDiscovery, DiscoveryFactory, DiscoveryFactoryOptions } from './discovery';
+
+// Peer info announced by discovery (matching Rust PeerInfo)
+interface LoopbackPeerInfo {
+  public_key: Uint8Array;
+  addresses: string[];
+}
+
+/**
+ * Shared in-memory bus connecting every loopback transport and discovery
+ * created from it. Nodes in the same process that use factories from the same
+ * LoopbackNetwork can discover each other, connect and exchange messages.
+ */
+export class LoopbackNetwork {
+  private readonly transports = new Map<string, LoopbackTransport>();
+  private readonly announcing = new Set<LoopbackDiscovery>();
+
+  transportFactory(): TransportFactory {
+    return options => new LoopbackTransport(this, options);
+  }
+
+  discoveryFactory(): DiscoveryFactory {
+    return options => new LoopbackDiscovery(this, options);
+  }
+
+  attach(transport: LoopbackTransport): void {
+    if (this.transports.has(transport.peerId)) {
+      throw new Error(`Peer ${transport.peerId} is already attached to the loopback network`);
+    }
+    this.transports.set(transport.peerId, transport);
+  }
+
+  detach(transport: LoopbackTransport): void {
+    if (this.transports.get(transport.peerId) === transport) {
+      this.transports.delete(transport.peerId);
+    }
+  }
+
+  getTransport(peerId: string): LoopbackTransport | undefined {
+    return this.transports.get(peerId);
+  }
+
+  async announce(discovery: LoopbackDiscovery): Promise<void> {
+    this.announcing.add(discovery);
+    for (const other of this.announcing) {
+      if (other === discovery) continue;
+      await discovery.peerDiscovered(other.getLocalPeerInfo());
+      await other.peerDiscovered(discovery.getLocalPeerInfo());
+    }
+  }
+
+  withdraw(discovery: LoopbackDiscovery): void {
+    this.announcing.delete(discovery);
+  }
+}
+
+/**
+ * QuicTransport implementation that delivers messages through a LoopbackNetwork
+ */
+export class LoopbackTransport implements QuicTransport {
+  readonly peerId: string;
+  private readonly connectedPeers = new Set<string>();
+  private readonly logger: Logger;
+  private running = false;
+
+  constructor(
+    private readonly network: LoopbackNetwork,
+    private readonly options: TransportFactoryOptions
+  ) {
+    this.peerId = options.nodeId;
+    this.logger = options.logger;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.network.attach(this);
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+    const peers = Array.from(this.connectedPeers);
+    this.connectedPeers.clear();
+    for (const peerId of peers) {
+      await this.network.getTransport(peerId)?.peerDisconnected(this.peerId);
+    }
+    this.network.detach(this);
+  }
+
+  async request(
+    path: string,
+    correlationId: string,
+    payload: Uint8Array,
+    destPeerId: string,
+    networkPublicKey?: Uint8Array,
+    profilePublicKeys?: Uint8Array[]
+  ): Promise<Uint8Array> {
+    const remote = this.connectedRemote(destPeerId);
+    const response = await remote.receive({
+      message_type: NetworkMessageType.Request,
+      path,
+      correlation_id: correlationId,
+      payload_bytes: new Uint8Array(payload),
+      source_peer_id: this.peerId,
+      network_public_key: networkPublicKey,
+      profile_public_keys: profilePublicKeys ?? [],
+    });
+    if (!response) {
+      throw new Error(`Peer ${destPeerId} returned no response for ${path}`);
+    }
+    return new Uint8Array(response);
+  }
+
+  async streamFrame(
+    messageType: NetworkMessageType,
+    path: string,
+    correlationId: string,
+    payload: Uint8Array,
+    destPeerId: string,
+    networkPublicKey?: Uint8Array,
+    profilePublicKeys?: Uint8Array[]
+  ): Promise<Uint8Array> {
+    const remote = this.connectedRemote(destPeerId);
+    const response = await remote.receive({
+      message_type: messageType,
+      path,
+      correlation_id: correlationId,
+      payload_bytes: new Uint8Array(payload),
+      source_peer_id: this.peerId,
+      network_public_key: networkPublicKey,
+      profile_public_keys: profilePublicKeys ?? [],
+    });
+    return new Uint8Array(response ?? []);
+  }
+
+  async publish(
+    path: string,
+    correlationId: string,
+    payload: Uint8Array,
+    destPeerId: string,
+    networkPublicKey?: Uint8Array
+  ): Promise<void> {
+    const remote = this.connectedRemote(destPeerId);
+    await remote.receive({
+      message_type: NetworkMessageType.Event,
+      path,
+      correlation_id: correlationId,
+      payload_bytes: new Uint8Array(payload),
+      source_peer_id: this.peerId,
+      network_public_key: networkPublicKey,
+      profile_public_keys: [],
+    });
+  }
+
+  async connectPeer(peerInfoCbor: Uint8Array): Promise<void> {
+    this.ensureRunning();
+    const peerInfo = decode(peerInfoCbor) as LoopbackPeerInfo;
+    const peerId = peerIdFromPublicKey(new Uint8Array(peerInfo.public_key));
+    if (peerId === this.peerId || this.connectedPeers.has(peerId)) return;
+
+    const remote = this.network.getTransport(peerId);
+    if (!remote || !remote.running) {
+      throw new Error(`Peer ${peerId} is not reachable on the loopback network`);
+    }
+
+    // Handshake: both sides record the connection and exchange node info
+    this.connectedPeers.add(peerId);
+    remote.connectedPeers.add(this.peerId);
+    this.logger.debug(`Loopback transport connected ${this.peerId} <-> ${peerId}`);
+    await this.options.onPeerNodeInfo(remote.options.getLocalNodeInfo());
+    await remote.options.onPeerNodeInfo(this.options.getLocalNodeInfo());
+  }
+
+  async isConnected(peerId: string): Promise<boolean> {
+    return this.connectedPeers.has(peerId);
+  }
+
+  async isConnectedToPublicKey(peerPublicKey: Uint8Array): Promise<boolean> {
+    return this.connectedPeers.has(peerIdFromPublicKey(peerPublicKey));
+  }
+
+  async updatePeers(nodeInfoCbor: Uint8Array): Promise<void> {
+    const nodeInfo = decode(nodeInfoCbor) as NodeInfo;
+    for (const peerId of this.connectedPeers) {
+      const remote = this.network.getTransport(peerId);
+      if (remote) {
+        await remote.options.onPeerNodeInfo(nodeInfo);
+      }
+    }
+  }
+
+  private async receive(message: NetworkMessage): Promise<Uint8Array | undefined> {
+    this.ensureRunning();
+    return this.options.messageHandler(message);
+  }
+
+  private async peerDisconnected(peerId: string): Promise<void> {
+    if (this.connectedPeers.delete(peerId)) {
+      this.logger.debug(`Loopback transport ${this.peerId} lost peer ${peerId}`);
+      await this.options.onPeerDisconnected(peerId);
+    }
+  }
+
+  private connectedRemote(peerId: string): LoopbackTransport {
+    this.ensureRunning();
+    const remote = this.network.getTransport(peerId);
+    if (!this.connectedPeers.has(peerId) || !remote) {
+      throw new Error(`Not connected to peer ${peerId}`);
+    }
+    return remote;
+  }
+
+  private ensureRunning(): void {
+    if (!this.running) {
+      throw new Error(`Loopback transport ${this.peerId} is not running`);
+    }
+  }
+}
+
+/**
+ * NodeDiscovery implementation that announces peers through a LoopbackNetwork.
+ * Discovered peers are connected via the bound transport.
+ */
+export class LoopbackDiscovery implements NodeDiscovery {
+  private transport?: QuicTransport;
+  private localPeerInfoCbor: Uint8Array;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly network: LoopbackNetwork,
+    options: DiscoveryFactoryOptions
+  ) {
+    this.logger = options.logger;
+    const peerInfo: LoopbackPeerInfo = {
+      public_key: options.nodePublicKey,
+      addresses: [`loopback://${options.nodeId}`],
+    };
+    this.localPeerInfoCbor = encode(peerInfo);
+  }
+
+  async init(_optionsCbor: Uint8Array): Promise<void> {
+    // Loopback discovery has no options
+  }
+
+  async bindEventsToTransport(transport: QuicTransport): Promise<void> {
+    this.transport = transport;
+  }
+
+  async startAnnouncing(): Promise<void> {
+    await this.network.announce(this);
+  }
+
+  async stopAnnouncing(): Promise<void> {
+    this.network.withdraw(this);
+  }
+
+  async shutdown(): Promise<void> {
+    this.network.withdraw(this);
+    this.transport = undefined;
+  }
+
+  async updateLocalPeerInfo(peerInfoCbor: Uint8Array): Promise<void> {
+    this.localPeerInfoCbor = new Uint8Array(peerInfoCbor);
+  }
+
+  getLocalPeerInfo(): Uint8Array {
+    return this.localPeerInfoCbor;
+  }
+
+  async peerDiscovered(peerInfoCbor: Uint8Array): Promise<void> {
+    if (!this.transport) return;
+    try {
+      await this.transport.connectPeer(peerInfoCbor);
+    } catch (error) {
+      this.logger.warn(`Loopback discovery failed to connect peer: ${error}`);
+    }
+  }
+}
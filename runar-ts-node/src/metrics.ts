@@ -0,0 +1,169 @@
+// Metrics settings (see NodeConfig.withMetrics)
+export interface MetricsConfig {
+  // Upper bounds of the latency histogram buckets, in milliseconds
+  latencyBucketsMs?: number[];
+  // Register $metrics/prometheus, returning the metrics in Prometheus text format
+  prometheus?: boolean;
+}
+
+export const DEFAULT_LATENCY_BUCKETS_MS = [
+  1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+export interface LatencyHistogram {
+  // Cumulative count per bucket upper bound, ending with +Inf
+  buckets: Array<{ le: number; count: number }>;
+  sumMs: number;
+  count: number;
+}
+
+export interface ActionMetrics {
+  requests: number;
+  errors: number;
+  latency: LatencyHistogram;
+}
+
+export interface EventMetrics {
+  published: number;
+  subscriberFailures: number;
+}
+
+export interface MetricsSnapshot {
+  sinceMs: number;
+  actions: Record<string, ActionMetrics>;
+  events: Record<string, EventMetrics>;
+}
+
+interface ActionCounters {
+  requests: number;
+  errors: number;
+  // Non-cumulative count per bucket; the last slot is +Inf
+  bucketCounts: number[];
+  sumMs: number;
+}
+
+/**
+ * Request and event statistics kept by the node. Actions are keyed by their
+ * registered path (templates like orders/{id} stay one entry), events by topic.
+ */
+export class NodeMetrics {
+  private readonly bucketsMs: number[];
+  private actions = new Map<string, ActionCounters>();
+  private events = new Map<string, EventMetrics>();
+  private sinceMs = Date.now();
+
+  constructor(config: MetricsConfig = {}) {
+    this.bucketsMs = [...(config.latencyBucketsMs ?? DEFAULT_LATENCY_BUCKETS_MS)].sort(
+      (a, b) => a - b
+    );
+  }
+
+  recordRequest(actionPath: string, durationMs: number, succeeded: boolean): void {
+    let counters = this.actions.get(actionPath);
+    if (!counters) {
+      counters = {
+        requests: 0,
+        errors: 0,
+        bucketCounts: new Array(this.bucketsMs.length + 1).fill(0),
+        sumMs: 0,
+      };
+      this.actions.set(actionPath, counters);
+    }
+    counters.requests++;
+    if (!succeeded) counters.errors++;
+    counters.sumMs += durationMs;
+    const bucket = this.bucketsMs.findIndex(le => durationMs <= le);
+    counters.bucketCounts[bucket === -1 ? this.bucketsMs.length : bucket]!++;
+  }
+
+  recordEvent(topic: string): void {
+    this.eventCounters(topic).published++;
+  }
+
+  recordSubscriberFailure(topic: string): void {
+    this.eventCounters(topic).subscriberFailures++;
+  }
+
+  snapshot(): MetricsSnapshot {
+    const actions: Record<string, ActionMetrics> = {};
+    for (const [path, counters] of this.actions) {
+      let cumulative = 0;
+      const bounds = [...this.bucketsMs, Number.POSITIVE_INFINITY];
+      actions[path] = {
+        requests: counters.requests,
+        errors: counters.errors,
+        latency: {
+          buckets: bounds.map((le, i) => ({
+            le,
+            count: (cumulative += counters.bucketCounts[i]!),
+          })),
+          sumMs: counters.sumMs,
+          count: counters.requests,
+        },
+      };
+    }
+    const events: Record<string, EventMetrics> = {};
+    for (const [topic, counters] of this.events) {
+      events[topic] = { ...counters };
+    }
+    return { sinceMs: this.sinceMs, actions, events };
+  }
+
+  reset(): void {
+    this.actions = new Map();
+    this.events = new Map();
+    this.sinceMs = Date.now();
+  }
+
+  // Prometheus text exposition format (version 0.0.4)
+  toPrometheus(): string {
+    const { actions, events } = this.snapshot();
+    const lines: string[] = [];
+    const metric = (name: string, type: string, help: string): void => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+
+    metric('runar_requests_total', 'counter', 'Requests per action');
+    for (const [path, a] of Object.entries(actions)) {
+      lines.push(`runar_requests_total{action="${escapeLabel(path)}"} ${a.requests}`);
+    }
+    metric('runar_request_errors_total', 'counter', 'Failed requests per action');
+    for (const [path, a] of Object.entries(actions)) {
+      lines.push(`runar_request_errors_total{action="${escapeLabel(path)}"} ${a.errors}`);
+    }
+    metric('runar_request_duration_ms', 'histogram', 'Request latency per action in milliseconds');
+    for (const [path, a] of Object.entries(actions)) {
+      const action = escapeLabel(path);
+      for (const { le, count } of a.latency.buckets) {
+        const bound = le === Number.POSITIVE_INFINITY ? '+Inf' : String(le);
+        lines.push(`runar_request_duration_ms_bucket{action="${action}",le="${bound}"} ${count}`);
+      }
+      lines.push(`runar_request_duration_ms_sum{action="${action}"} ${a.latency.sumMs}`);
+      lines.push(`runar_request_duration_ms_count{action="${action}"} ${a.latency.count}`);
+    }
+    metric('runar_events_total', 'counter', 'Events published per topic');
+    for (const [topic, e] of Object.entries(events)) {
+      lines.push(`runar_events_total{topic="${escapeLabel(topic)}"} ${e.published}`);
+    }
+    metric('runar_subscriber_failures_total', 'counter', 'Failed subscriber deliveries per topic');
+    for (const [topic, e] of Object.entries(events)) {
+      lines.push(
+        `runar_subscriber_failures_total{topic="${escapeLabel(topic)}"} ${e.subscriberFailures}`
+      );
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private eventCounters(topic: string): EventMetrics {
+    let counters = this.events.get(topic);
+    if (!counters) {
+      counters = { published: 0, subscriberFailures: 0 };
+      this.events.set(topic, counters);
+    }
+    return counters;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,100 @@
+import { Result, ok, err } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+import { AbstractService, NodeLifecycleContext } from './service';
+import { NodeMetrics } from './metrics';
+import { toAnyValue } from './helpers';
+
+/**
+ * Internal service exposing the node's request and event statistics:
+ * $metrics/snapshot, $metrics/reset and, when enabled, $metrics/prometheus.
+ */
+export class MetricsService implements AbstractService {
+  private _networkId?: string;
+
+  constructor(
+    private readonly metrics: NodeMetrics,
+    private readonly prometheus = false
+  ) {}
+
+  name(): string {
+    return 'Metrics';
+  }
+  version(): string {
+    return '1.0.0';
+  }
+  path(): string {
+    return '$metrics';
+  }
+  description(): string {
+    return 'Request and event metrics of the local node';
+  }
+  networkId(): string | undefined {
+    return this._networkId;
+  }
+  setNetworkId(networkId: string): void {
+    this._networkId = networkId;
+  }
+
+  async init(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    const actions: Array<[string, () => unknown]> = [
+      ['snapshot', (): unknown => this.snapshotValue()],
+      [
+        'reset',
+        (): unknown => {
+          this.metrics.reset();
+          return null;
+        },
+      ],
+    ];
+    if (this.prometheus) {
+      actions.push(['prometheus', (): unknown => this.metrics.toPrometheus()]);
+    }
+
+    for (const [name, produce] of actions) {
+      const result = await context.registerAction(
+        name,
+        async (): Promise<Result<AnyValue, string>> => toAnyValue(produce())
+      );
+      if (!result.ok) {
+        return err(`Failed to register $metrics/${name}: ${result.error}`);
+      }
+    }
+    return ok(undefined);
+  }
+
+  async start(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+
+  async stop(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+
+  // Snapshot as nested maps keyed by action and event path
+  private snapshotValue(): unknown {
+    const { sinceMs, actions, events } = this.metrics.snapshot();
+    return {
+      since_ms: sinceMs,
+      actions: Object.fromEntries(
+        Object.entries(actions).map(([path, a]) => [
+          path,
+          {
+            requests: a.requests,
+            errors: a.errors,
+            latency_ms: {
+              buckets: a.latency.buckets.map(b => ({ le: b.le, count: b.count })),
+              sum: a.latency.sumMs,
+              count: a.latency.count,
+            },
+          },
+        ])
+      ),
+      events: Object.fromEntries(
+        Object.entries(events).map(([topic, e]) => [
+          topic,
+          { published: e.published, subscriber_failures: e.subscriberFailures },
+        ])
+      ),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+import { AnyValue } from 'runar-ts-serializer';
+import { Result, TopicPath, err, ok } from 'runar-ts-common';
+import type { ActionHandler, RequestContext, StreamingActionHandler } from './service';
+
+// Continues the chain; a middleware may pass a replacement payload
+export type RequestNext = (payload?: AnyValue) => Promise<Result<AnyValue, string>>;
+
+/**
+ * Interceptor around action calls. It sees the action topic, the payload and the
+ * request context, and gets the result back from next(). Returning without calling
+ * next() short-circuits the call (e.g. an auth check).
+ */
+export type RequestMiddleware = (
+  topicPath: TopicPath,
+  payload: AnyValue,
+  context: RequestContext,
+  next: RequestNext
+) => Promise<Result<AnyValue, string>>;
+
+/**
+ * Node-level and per-service middleware. Node-level middleware wraps
+ * service-level middleware, and each list runs in registration order.
+ */
+export class MiddlewareChain {
+  private readonly nodeMiddleware: RequestMiddleware[] = [];
+  private readonly serviceMiddleware = new Map<string, RequestMiddleware[]>();
+
+  add(middleware: RequestMiddleware): void {
+    this.nodeMiddleware.push(middleware);
+  }
+
+  addForService(servicePath: string, middleware: RequestMiddleware): void {
+    const list = this.serviceMiddleware.get(servicePath) ?? [];
+    list.push(middleware);
+    this.serviceMiddleware.set(servicePath, list);
+  }
+
+  remove(middleware: RequestMiddleware): boolean {
+    let removed = removeFrom(this.nodeMiddleware, middleware);
+    for (const [servicePath, list] of this.serviceMiddleware) {
+      removed = removeFrom(list, middleware) || removed;
+      if (list.length === 0) this.serviceMiddleware.delete(servicePath);
+    }
+    return removed;
+  }
+
+  clearService(servicePath: string): void {
+    this.serviceMiddleware.delete(servicePath);
+  }
+
+  forService(servicePath: string): RequestMiddleware[] {
+    return [...this.nodeMiddleware, ...(this.serviceMiddleware.get(servicePath) ?? [])];
+  }
+
+  /**
+   * Run the handler for topicPath through every middleware that applies to its service
+   */
+  async execute(
+    handler: ActionHandler,
+    topicPath: TopicPath,
+    payload: AnyValue,
+    context: RequestContext
+  ): Promise<Result<AnyValue, string>> {
+    return composeMiddleware(this.forService(topicPath.servicePath()), handler)(
+      topicPath,
+      payload,
+      context
+    );
+  }
+
+  /**
+   * Open a streaming handler through the same middleware. The middleware sees the call
+   * that opens the stream, not its chunks: an error result fails the stream, and a
+   * value returned without calling next() becomes the stream's only chunk.
+   */
+  async openStream(
+    handler: StreamingActionHandler,
+    topicPath: TopicPath,
+    payload: AnyValue,
+    context: RequestContext
+  ): Promise<Result<AsyncIterable<AnyValue>, string>> {
+    let stream: AsyncIterable<AnyValue> | undefined;
+    const opened = await composeMiddleware(
+      this.forService(topicPath.servicePath()),
+      async (current, ctx) => {
+        stream = handler(current, ctx);
+        return ok(AnyValue.null());
+      }
+    )(topicPath, payload, context);
+    if (!opened.ok) return err(opened.error);
+    return ok(stream ?? singleChunk(opened.value));
+  }
+}
+
+/**
+ * Fold the middleware list around a handler; the first middleware is outermost
+ */
+export function composeMiddleware(
+  middleware: RequestMiddleware[],
+  handler: ActionHandler
+): (
+  topicPath: TopicPath,
+  payload: AnyValue,
+  context: RequestContext
+) => Promise<Result<AnyValue, string>> {
+  return (topicPath, payload, context) => {
+    const dispatch = (index: number, current: AnyValue): Promise<Result<AnyValue, string>> => {
+      const layer = middleware[index];
+      if (!layer) {
+        return handler(current, context);
+      }
+      let called = false;
+      return layer(topicPath, current, context, next => {
+        if (called) {
+          throw new Error(`Middleware ${index} called next() more than once`);
+        }
+        called = true;
+        return dispatch(index + 1, next ?? current);
+      });
+    };
+    return dispatch(0, payload);
+  };
+}
+
+async function* singleChunk(value: AnyValue): AsyncGenerator<AnyValue> {
+  yield value;
+}
+
+function removeFrom(list: RequestMiddleware[], middleware: RequestMiddleware): boolean {
+  const index = list.indexOf(middleware);
+  if (index < 0) return false;
+  list.splice(index, 1);
+  return true;
+}
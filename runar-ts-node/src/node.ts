@@ -1,32 +1,76 @@
 import { v4 as uuidv4 } from 'uuid';
 import { AnyValue, SerializationContext, ResolverCache } from 'runar-ts-serializer';
 import { encode } from 'cbor-x';
-import { PathTrie, TopicPath, Logger } from 'runar-ts-common';
+import { PathTrie, TopicPath, Logger, Component } from 'runar-ts-common';
 import type { Keys } from 'runar-nodejs-api';
 import { KeysManagerWrapper } from './keys_manager_wrapper';
 import { KeysService } from './keys_service';
 import { RegistryService } from './registry_service';
 import { NodeConfig } from './config';
-import { ServiceRegistry } from './registry';
-import { QuicTransport } from './transport';
+import { ServiceRegistry, SubscriberMatch, ServiceStateChange } from './registry';
+import {
+  QuicTransport,
+  NetworkMessage,
+  NetworkMessageType,
+  encodeResponseFrame,
+  peerIdFromPublicKey,
+} from './transport';
 import { NodeDiscovery } from './discovery';
+import { RemoteService } from './remote_service';
 import {
   AbstractService,
   ServiceEntry,
+  ServiceStartReport,
   ServiceState,
   NodeDelegate,
   RequestContext,
+  RequestOptions,
+  ActionHandler,
+  StreamingActionHandler,
   EventContext,
 } from './service';
+import {
+  RequestTimeoutError,
+  RequestCancelledError,
+  ServiceDependencyCycleError,
+  ServiceDependencyError,
+  isTransportError,
+} from './errors';
+import { ServiceDependencyGraph } from './service_graph';
+import { Supervisor, RestartEvent } from './supervisor';
+import { PauseGate } from './pause_gate';
+import { NodeMetrics } from './metrics';
+import { MetricsService } from './metrics_service';
+import { HealthMonitor } from './health';
+import { HealthService } from './health_service';
+import { DEAD_LETTER_SERVICE_PATH, DeadLetter, DeadLetters } from './dead_letter';
+import { DeadLetterService, letterValue } from './dead_letter_service';
+import { CallerIdentity, RateLimiter } from './rate_limit';
+import { DEFAULT_RETRY_POLICY, withRetries } from './retry';
+import { CircuitBreakers, CircuitChange } from './circuit_breaker';
+import { LOCAL_PROVIDER_ID, ServiceProviders } from './load_balancer';
+import { StreamSessions, decodeStreamPull, encodeStreamFrame, iterateWithSignal } from './stream';
+import { MiddlewareChain, RequestMiddleware } from './middleware';
+import { errorMessage, toAnyValue, toError } from './helpers';
+import { Outbox, OutboxEntry, OutboxDeliveryResult } from './outbox';
+import { RetentionPolicies, DEFAULT_RETENTION_SWEEP_INTERVAL_MS } from './retention';
+import {
+  RetainedEventStore,
+  InMemoryRetainedEventStore,
+  StoredRetainedEvent,
+} from './retained_store';
 import { EventMessage, EventSubscriber } from './events';
+import {
+  EventBuffer,
+  EventStreamOptions,
+  StreamedEvent,
+  DEFAULT_EVENT_BUFFER_SIZE,
+} from './event_stream';
 import { NodeLifecycleContextImpl, RequestContextImpl, EventContextImpl } from './context';
 import { PublishOptions, EventRegistrationOptions } from './events';
-import { SubscriptionMetadata } from 'runar-ts-schemas';
+import { SubscriptionMetadata, NodeInfo, ServiceMetadata } from 'runar-ts-schemas';
 import { Result, err, ok } from 'runar-ts-common';
 
-// Import logger components
-const { Logger: LoggerClass, Component: ComponentEnum } = require('runar-ts-common');
-
 // Helper function to check if result is ok
 function isOk<T, E>(result: Result<T, E>): result is Result<T, E> & { ok: true } {
   return result.ok;
@@ -64,14 +108,40 @@ export class Node {
   private readonly supportsNetworking: boolean;
   private networkTransport?: QuicTransport;
   private networkDiscovery?: NodeDiscovery;
+  private nodeId?: string;
+  private nodePublicKey?: Uint8Array;
+  private localNodeInfoVersion = 0;
+  private readonly peerNodeInfos = new Map<string, NodeInfo>();
+  // Registry subscriptions that forward events to peers, keyed by subscription id
+  private readonly remoteSubscriptions = new Map<string, { peerId: string; path: string }>();
+  private readonly middleware = new MiddlewareChain();
+  private readonly outbox?: Outbox;
   private running = false;
   private retainedEvents = new Map<
     string,
-    Array<{ ts: number; event: string; payload: AnyValue }>
+    Array<{ ts: number; event: string; payload: AnyValue; expiresAtMs?: number }>
   >();
   private retainedIndex = new PathTrie<string>();
   private retainedKeyToTopic = new Map<string, TopicPath>();
-  private readonly maxRetainedPerTopic = 100;
+  private readonly retentionPolicies: RetentionPolicies;
+  private readonly retainedStore: RetainedEventStore;
+  private retentionSweeper?: NodeJS.Timeout;
+  private readonly supervisor: Supervisor;
+  private readonly pauseGate: PauseGate;
+  private readonly metrics: NodeMetrics;
+  private readonly rateLimiter: RateLimiter;
+  private readonly circuitBreakers: CircuitBreakers;
+  private readonly serviceProviders: ServiceProviders;
+  private readonly streamSessions: StreamSessions;
+  private readonly deadLetters: DeadLetters;
+  // Aborted on stop so subscriber retries give up
+  private eventRetries = new AbortController();
+  // Ends the open events() iterations (see events())
+  private readonly eventStreams = new Set<() => Promise<void>>();
+  // Tail of the background retries of each subscription (see queueEventRetry)
+  private readonly eventRetryQueues = new Map<string, Promise<void>>();
+  // Keeps state_changed and circuit_changed events in transition order
+  private serviceStateEvents: Promise<void> = Promise.resolve();
 
   constructor(config: NodeConfig) {
     // Extract the key manager from config (matching Rust)
@@ -93,7 +163,49 @@ export class Node {
     // Check if networking is supported based on config
     this.supportsNetworking = !!this.config.networkConfig;
 
-    this.logger = LoggerClass.newRoot(ComponentEnum.Node).setNodeId(this.networkId) as any;
+    this.logger = Logger.newRoot(Component.Node).setNodeId(this.networkId);
+
+    this.retentionPolicies = new RetentionPolicies(
+      this.networkId,
+      config.getDefaultRetentionPolicy(),
+      config.getRetentionPolicies()
+    );
+
+    this.retainedStore = config.getRetainedEventStore() ?? new InMemoryRetainedEventStore();
+
+    this.rateLimiter = new RateLimiter(this.networkId, config.getRateLimits());
+    this.circuitBreakers = new CircuitBreakers(
+      config.getDefaultCircuitBreakerPolicy(),
+      config.getCircuitBreakerPolicies(),
+      change => this.publishCircuitChange(change)
+    );
+    this.serviceProviders = new ServiceProviders(
+      config.getDefaultLoadBalancing(),
+      config.getLoadBalancing()
+    );
+    this.streamSessions = new StreamSessions(undefined, this.logger);
+    this.deadLetters = new DeadLetters(config.getDeadLetterConfig().maxEntries);
+
+    const outboxConfig = config.getOutboxConfig();
+    if (outboxConfig) {
+      this.outbox = new Outbox(outboxConfig, entry => this.deliverOutboxEntry(entry), this.logger);
+    }
+
+    this.registry.onServiceStateChange(change => this.publishServiceStateChange(change));
+
+    this.metrics = new NodeMetrics(config.getMetricsConfig());
+
+    this.pauseGate = new PauseGate(config.getDefaultPausePolicy(), config.getPausePolicies());
+
+    this.supervisor = new Supervisor(
+      config.getDefaultRestartPolicy(),
+      config.getRestartPolicies(),
+      {
+        restart: (servicePath): Promise<Result<void, string>> => this.restartService(servicePath),
+        publish: (event): Promise<void> => this.publishRestartEvent(event),
+      },
+      this.logger
+    );
   }
 
   // Method to get keys wrapper for serializer (matching Rust pattern)
@@ -133,28 +245,39 @@ export class Node {
     try {
       // Initialize transport and discovery if not already done
       if (!this.networkTransport || !this.networkDiscovery) {
-        // Create transport and discovery instances from config
-        const { NativeQuicTransport } = await import('./transport.js');
-        const { NativeMulticastDiscovery } = await import('./discovery.js');
-
-        // Create transport instance (this would need to be created from native API)
-        // For now, we'll need the native transport instance to be provided
-        if (!this.config.networkConfig) {
-          return err(new Error('Network configuration required for networking'));
+        const transportFactory = this.config.getTransportFactory();
+        const discoveryFactory = this.config.getDiscoveryFactory();
+        if (!transportFactory || !discoveryFactory) {
+          return err(
+            new Error(
+              'Transport and discovery factories must be provided via NodeConfig.withTransportFactory() and withDiscoveryFactory()'
+            )
+          );
         }
 
-        // Native transport and discovery instances must be provided via dependency injection
-        return err(
-          new Error(
-            'Native transport and discovery instances must be provided via constructor or factory'
-          )
-        );
+        // Node identity is derived from the node public key in the keystore
+        this.nodePublicKey = new Uint8Array(this.keysManager.nodeGetPublicKey());
+        this.nodeId = peerIdFromPublicKey(this.nodePublicKey);
+
+        this.networkTransport = transportFactory({
+          nodeId: this.nodeId,
+          nodePublicKey: this.nodePublicKey,
+          logger: this.logger,
+          messageHandler: message => this.replyToNetworkMessage(message),
+          getLocalNodeInfo: () => this.getLocalNodeInfo(),
+          onPeerNodeInfo: nodeInfo => this.handlePeerNodeInfo(nodeInfo),
+          onPeerDisconnected: peerId => this.handlePeerDisconnected(peerId),
+        });
+        this.networkDiscovery = discoveryFactory({
+          nodeId: this.nodeId,
+          nodePublicKey: this.nodePublicKey,
+          logger: this.logger,
+        });
       }
 
       // Start transport
       await this.networkTransport.start();
 
-      // Initialize discovery
       // Initialize discovery with network configuration options
       const discoveryOptions = this.config.networkConfig?.discovery
         ? encode(this.config.networkConfig.discovery)
@@ -173,43 +296,277 @@ export class Node {
     }
   }
 
+  // Node id used for transport addressing (available once networking has started)
+  getNodeId(): string | undefined {
+    return this.nodeId;
+  }
+
+  // NodeInfo announced to peers (matching Rust get_local_node_info)
+  getLocalNodeInfo(): NodeInfo {
+    const services = this.registry
+      .getLocalServices()
+      .filter(entry => !this.isInternalService(entry.service.path()))
+      .map(entry => this.toServiceMetadata(entry));
+    const subscriptions: SubscriptionMetadata[] = this.registry
+      .getSubscriptionTopics('Local')
+      .filter(topic => !this.isInternalService(topic.servicePath()))
+      .map(topic => ({ path: topic.asString() }));
+
+    return {
+      node_public_key: this.nodePublicKey ?? new Uint8Array(),
+      network_ids: [this.networkId, ...this.config.networkIds],
+      addresses: [],
+      node_metadata: { services, subscriptions },
+      version: this.localNodeInfoVersion,
+    };
+  }
+
+  // Returns the latest NodeInfo received from each connected peer
+  getPeerNodeInfos(): NodeInfo[] {
+    return Array.from(this.peerNodeInfos.values());
+  }
+
+  private async handlePeerNodeInfo(nodeInfo: NodeInfo): Promise<void> {
+    const peerId = peerIdFromPublicKey(new Uint8Array(nodeInfo.node_public_key));
+    const known = this.peerNodeInfos.get(peerId);
+    if (known && known.version > nodeInfo.version) {
+      this.logger?.debug?.(`Ignoring stale node info v${nodeInfo.version} from peer ${peerId}`);
+      return;
+    }
+    this.peerNodeInfos.set(peerId, nodeInfo);
+    this.logger?.info?.(
+      `Peer ${peerId} node info v${nodeInfo.version}: ${nodeInfo.node_metadata.services.length} services`
+    );
+    await this.syncRemoteServices(peerId, nodeInfo);
+    this.syncRemoteSubscriptions(peerId, nodeInfo);
+  }
+
+  private async handlePeerDisconnected(peerId: string): Promise<void> {
+    if (this.peerNodeInfos.delete(peerId)) {
+      this.logger?.info?.(`Peer ${peerId} disconnected`);
+    }
+    for (const remoteService of this.registry.getRemoteServicesForPeer(peerId)) {
+      await this.removeRemoteService(remoteService);
+    }
+    this.removeRemoteSubscriptions(peerId);
+    this.circuitBreakers.forgetPeer(peerId);
+    this.streamSessions.closePeer(peerId);
+  }
+
+  // Create, refresh or drop RemoteService proxies so they mirror the services a peer announces
+  private async syncRemoteServices(peerId: string, nodeInfo: NodeInfo): Promise<void> {
+    if (!this.networkTransport) return;
+
+    const knownNetworks = new Set([this.networkId, ...this.config.networkIds]);
+    const stale = new Map(
+      this.registry
+        .getRemoteServicesForPeer(peerId)
+        .map(remoteService => [remoteService.getServiceTopic().asString(), remoteService])
+    );
+
+    for (const metadata of nodeInfo.node_metadata.services) {
+      if (!knownNetworks.has(metadata.network_id)) continue;
+
+      const serviceTopicResult = TopicPath.newService(metadata.network_id, metadata.service_path);
+      if (!serviceTopicResult.ok) {
+        this.logger?.warn?.(
+          `Ignoring remote service ${metadata.service_path} from peer ${peerId}: ${serviceTopicResult.error}`
+        );
+        continue;
+      }
+      const serviceTopic = serviceTopicResult.value;
+
+      const existing = stale.get(serviceTopic.asString());
+      if (existing) {
+        existing.updateMetadata(metadata);
+        stale.delete(serviceTopic.asString());
+        continue;
+      }
+
+      const remoteService = new RemoteService(
+        serviceTopic,
+        peerId,
+        metadata,
+        this.networkTransport,
+        this.logger
+      );
+      const context = new NodeLifecycleContextImpl(
+        serviceTopic.networkId(),
+        serviceTopic.servicePath(),
+        this.logger,
+        this
+      );
+      const initResult = await remoteService.init(context);
+      const startResult = initResult.ok ? await remoteService.start(context) : initResult;
+      if (!startResult.ok) {
+        this.logger?.error?.(
+          `Failed to start remote service ${serviceTopic} from peer ${peerId}: ${startResult.error}`
+        );
+        continue;
+      }
+      this.registry.addRemoteService(remoteService);
+      this.logger?.debug?.(`Registered remote service ${serviceTopic} from peer ${peerId}`);
+    }
+
+    for (const remoteService of stale.values()) {
+      await this.removeRemoteService(remoteService);
+    }
+  }
+
+  // Mirror the subscriptions a peer announces as Remote registry subscriptions that forward events
+  private syncRemoteSubscriptions(peerId: string, nodeInfo: NodeInfo): void {
+    const knownNetworks = new Set([this.networkId, ...this.config.networkIds]);
+    const stale = new Map<string, string>();
+    for (const [subscriptionId, subscription] of this.remoteSubscriptions) {
+      if (subscription.peerId === peerId) stale.set(subscription.path, subscriptionId);
+    }
+
+    for (const metadata of nodeInfo.node_metadata.subscriptions) {
+      if (stale.delete(metadata.path)) continue;
+
+      const topicResult = TopicPath.new(metadata.path, this.networkId);
+      if (!topicResult.ok || !knownNetworks.has(topicResult.value.networkId())) {
+        this.logger?.debug?.(`Ignoring subscription ${metadata.path} from peer ${peerId}`);
+        continue;
+      }
+      const topic = topicResult.value;
+      const subscriptionId = this.registry.subscribe(
+        topic,
+        topic,
+        (context, payload) =>
+          this.forwardEventToPeer(peerId, context.topicPath, context.deliveryId, payload),
+        metadata,
+        'Remote'
+      );
+      this.remoteSubscriptions.set(subscriptionId, { peerId, path: metadata.path });
+      this.logger?.debug?.(`Registered remote subscription ${metadata.path} from peer ${peerId}`);
+    }
+
+    for (const subscriptionId of stale.values()) {
+      this.registry.unsubscribe(subscriptionId);
+      this.remoteSubscriptions.delete(subscriptionId);
+    }
+  }
+
+  private removeRemoteSubscriptions(peerId?: string): void {
+    for (const [subscriptionId, subscription] of this.remoteSubscriptions) {
+      if (peerId !== undefined && subscription.peerId !== peerId) continue;
+      this.registry.unsubscribe(subscriptionId);
+      this.remoteSubscriptions.delete(subscriptionId);
+    }
+  }
+
+  // Serialize an event with the network label resolver and send it to a subscribed peer
+  // The delivery id travels as the correlation id so the peer hands it to its subscribers.
+  private async forwardEventToPeer(
+    peerId: string,
+    topicPath: TopicPath,
+    deliveryId: string,
+    payload?: AnyValue
+  ): Promise<Result<void, string>> {
+    if (!this.networkTransport) return err('Networking not started');
+    try {
+      const context = this.createSerializationContext();
+      const bytes = (payload ?? AnyValue.null()).serialize(context);
+      if (!bytes.ok) {
+        return err(`Failed to serialize event: ${bytes.error.message}`);
+      }
+      await this.networkTransport.publish(
+        topicPath.asString(),
+        deliveryId,
+        bytes.value,
+        peerId,
+        context.networkPublicKey
+      );
+      return ok(undefined);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.warn?.(`Failed to forward ${topicPath} to peer ${peerId}: ${message}`);
+      return err(message);
+    }
+  }
+
+  private async removeRemoteService(remoteService: RemoteService): Promise<void> {
+    const serviceTopic = remoteService.getServiceTopic();
+    await remoteService.stop(
+      new NodeLifecycleContextImpl(
+        serviceTopic.networkId(),
+        serviceTopic.servicePath(),
+        this.logger,
+        this
+      )
+    );
+    this.registry.removeRemoteService(remoteService);
+    this.logger?.debug?.(
+      `Removed remote service ${serviceTopic} from peer ${remoteService.getPeerNodeId()}`
+    );
+  }
+
+  // Push an updated NodeInfo to connected peers after the local service set changes
+  private async announceLocalNodeInfo(): Promise<void> {
+    if (!this.networkTransport) return;
+    this.localNodeInfoVersion++;
+    try {
+      await this.networkTransport.updatePeers(encode(this.getLocalNodeInfo()));
+    } catch (error) {
+      this.logger?.warn?.(`Failed to update peers with local node info: ${error}`);
+    }
+  }
+
+  private toServiceMetadata(entry: ServiceEntry): ServiceMetadata {
+    return {
+      network_id: entry.serviceTopic.networkId(),
+      service_path: entry.service.path(),
+      name: entry.service.name(),
+      version: entry.service.version(),
+      description: entry.service.description(),
+      actions: this.registry.getServiceActionTopics(entry.serviceTopic).map(topic => ({
+        name: topic.getSegments().slice(1).join('/'),
+        description: '',
+      })),
+      registration_time: entry.registrationTime,
+      last_start_time: entry.lastStartTime ?? null,
+    };
+  }
+
   // Method to handle network messages (matching Rust pattern)
-  async handleNetworkMessage(message: any): Promise<Result<void, Error>> {
+  async handleNetworkMessage(
+    message: NetworkMessage
+  ): Promise<Result<Uint8Array | undefined, Error>> {
     if (!this.supportsNetworking) {
       return err(new Error('Networking not supported on this node'));
     }
 
     try {
       // 1. Parse message, extract path, payload_bytes, correlation_id, profile_public_keys
-      const { path, payload_bytes, correlation_id, profile_public_keys } = message;
+      const { message_type, path, payload_bytes, correlation_id, profile_public_keys } = message;
 
       if (!path || !payload_bytes || !correlation_id) {
         return err(new Error('Invalid network message: missing required fields'));
       }
-
-      // 2. Build LabelResolver from cache via createUserLabelResolver(profile_public_keys)
-      const profilePublicKeys = profile_public_keys || [];
-      const resolverResult = this.resolverCache.getOrCreate(
-        this.config.getLabelResolverConfig(),
-        profilePublicKeys
-      );
-
-      if (!resolverResult.ok) {
-        return err(new Error(`Failed to create label resolver: ${resolverResult.error.message}`));
+      if (message_type === NetworkMessageType.Event) {
+        return this.handleRemoteEvent(message);
+      }
+      if (
+        message_type === NetworkMessageType.StreamOpen ||
+        message_type === NetworkMessageType.StreamPull ||
+        message_type === NetworkMessageType.StreamCancel
+      ) {
+        return await this.handleStreamFrame(message);
+      }
+      if (message_type !== NetworkMessageType.Request) {
+        return err(new Error(`Unsupported network message type: ${message_type}`));
       }
 
-      // 3. Build DeserializationContext with keystore and resolver, then AnyValue.deserialize(payload)
-      const deserializationContext = {
-        keystore: this.keysWrapper,
-        resolver: resolverResult.value,
-      };
+      const profilePublicKeys = profile_public_keys || [];
 
-      const payloadAv = AnyValue.deserialize(payload_bytes, deserializationContext);
+      // 2. Deserialize the payload with the node keystore
+      const payloadAv = AnyValue.deserialize(payload_bytes, this.keysWrapper);
       if (!payloadAv.ok) {
         return err(new Error(`Failed to deserialize payload: ${payloadAv.error.message}`));
       }
 
-      // 4. Route to local service/action and obtain AnyValue result
+      // 3. Route to local service/action and obtain AnyValue result
       const topicPathResult = TopicPath.new(path, this.networkId);
       if (!topicPathResult.ok) {
         return err(new Error(`Invalid topic path: ${topicPathResult.error}`));
@@ -220,49 +577,174 @@ export class Node {
         return err(new Error(`No local handler for ${path}`));
       }
 
-      // Create RequestContext for handler
-      const requestContext: RequestContext = {
-        topicPath: topicPathResult.value,
-        node: this,
-        networkId: this.networkId,
-        logger: this.logger?.withActionPath?.(path) || this.logger,
-        pathParams: new Map(),
-        request: this.request.bind(this),
-        publish: this.publish.bind(this),
-        debug: (message: string) => this.logger?.debug?.(message),
-        info: (message: string) => this.logger?.info?.(message),
-        warn: (message: string) => this.logger?.warn?.(message),
-        error: (message: string) => this.logger?.error?.(message),
-      };
-
-      const result = await handlers[0]!(payloadAv.value, requestContext);
+      const result = await this.withRequestDeadline(path, undefined, signal =>
+        this.invokeLocalHandler(handlers[0]!, topicPathResult.value, payloadAv.value, signal, {
+          peerId: message.source_peer_id,
+          profilePublicKeys,
+        })
+      );
       if (!result.ok) {
         return err(new Error(`Handler failed: ${result.error}`));
       }
 
-      // 5. Build SerializationContext with same profile keys; result.serialize(context)
+      // 4. Build SerializationContext with same profile keys; result.serialize(context)
       const serializationContext = this.createSerializationContext(profilePublicKeys);
       const responseBytes = result.value.serialize(serializationContext);
       if (!responseBytes.ok) {
         return err(new Error(`Failed to serialize response: ${responseBytes.error.message}`));
       }
 
-      // 6. Reply via transport.sendResponse (this would need to be implemented in transport)
-      // For now, we'll return success as the response handling would be done by the transport layer
-      return ok(undefined);
+      // 5. The transport delivers the returned bytes as the response to the caller
+      return ok(responseBytes.value);
     } catch (error) {
       return err(error instanceof Error ? error : new Error(String(error)));
     }
   }
 
+  /**
+   * Handle a message from the transport. Failures of requests and stream frames are
+   * encoded in the reply (ResponseFrame / StreamFrame error) so they reach the caller
+   * as handler failures whatever the transport does with thrown errors.
+   */
+  private async replyToNetworkMessage(message: NetworkMessage): Promise<Uint8Array | undefined> {
+    const result = await this.handleNetworkMessage(message);
+    switch (message.message_type) {
+      case NetworkMessageType.Request:
+        return encodeResponseFrame(
+          result.ok ? { payload: result.value } : { error: result.error.message }
+        );
+      case NetworkMessageType.StreamOpen:
+      case NetworkMessageType.StreamPull:
+      case NetworkMessageType.StreamCancel:
+        return result.ok
+          ? result.value
+          : encodeStreamFrame({ chunks: [], done: true, error: result.error.message });
+      default:
+        if (!result.ok) throw result.error;
+        return result.value;
+    }
+  }
+
+  /**
+   * Serve a stream requested by a peer. StreamOpen starts the local streaming handler
+   * and is acknowledged with an empty frame; each StreamPull is answered with the next
+   * chunks; StreamCancel stops the handler.
+   */
+  private async handleStreamFrame(
+    message: NetworkMessage
+  ): Promise<Result<Uint8Array | undefined, Error>> {
+    const { message_type, path, payload_bytes, correlation_id, source_peer_id } = message;
+    if (message_type === NetworkMessageType.StreamCancel) {
+      this.streamSessions.cancel(source_peer_id, correlation_id);
+      return ok(undefined);
+    }
+    if (message_type === NetworkMessageType.StreamPull) {
+      const { maxChunks } = decodeStreamPull(payload_bytes);
+      const frame = await this.streamSessions.pull(source_peer_id, correlation_id, maxChunks);
+      return ok(encodeStreamFrame(frame));
+    }
+
+    const profilePublicKeys = message.profile_public_keys || [];
+    const payloadAv = AnyValue.deserialize(payload_bytes, this.keysWrapper);
+    if (!payloadAv.ok) {
+      return err(new Error(`Failed to deserialize payload: ${payloadAv.error.message}`));
+    }
+    const topicPathResult = TopicPath.new(path, this.networkId);
+    if (!topicPathResult.ok) {
+      return err(new Error(`Invalid topic path: ${topicPathResult.error}`));
+    }
+    const handlers = this.registry.findLocalStreamHandlers(topicPathResult.value);
+    if (handlers.length === 0) {
+      return err(new Error(`No local stream handler for ${path}`));
+    }
+
+    // Rate limits, the pause gate and middleware apply when the stream opens, as for requests
+    const controller = new AbortController();
+    const caller = { peerId: source_peer_id, profilePublicKeys };
+    const acquired = this.rateLimiter.acquire(topicPathResult.value, caller);
+    if (!acquired.ok) return err(toError(acquired.error));
+    const admitted = await this.pauseGate.admit(
+      topicPathResult.value.servicePath(),
+      controller.signal
+    );
+    if (!admitted.ok) {
+      acquired.value();
+      return err(toError(admitted.error));
+    }
+
+    const source = await this.middleware.openStream(
+      handlers[0]!,
+      topicPathResult.value,
+      payloadAv.value,
+      this.createRequestContext(topicPathResult.value, controller.signal)
+    );
+    if (!source.ok) {
+      acquired.value();
+      return err(toError(source.error));
+    }
+
+    const serializationContext = this.createSerializationContext(profilePublicKeys);
+    this.streamSessions.open(
+      source_peer_id,
+      correlation_id,
+      path,
+      source.value,
+      chunk => {
+        const bytes = chunk.serialize(serializationContext);
+        if (!bytes.ok) throw new Error(`Failed to serialize chunk: ${bytes.error.message}`);
+        return bytes.value;
+      },
+      controller,
+      acquired.value
+    );
+    return ok(encodeStreamFrame({ chunks: [], done: false }));
+  }
+
+  // Deliver an event published by a peer to local subscribers (never forwarded again)
+  private async handleRemoteEvent(
+    message: NetworkMessage
+  ): Promise<Result<Uint8Array | undefined, Error>> {
+    const payloadAv = AnyValue.deserialize(message.payload_bytes, this.keysWrapper);
+    if (!payloadAv.ok) {
+      return err(new Error(`Failed to deserialize event payload: ${payloadAv.error.message}`));
+    }
+
+    const topicPathResult = TopicPath.new(message.path, this.networkId);
+    if (!topicPathResult.ok) {
+      return err(new Error(`Invalid topic path: ${topicPathResult.error}`));
+    }
+    const topicPath = topicPathResult.value;
+    this.metrics.recordEvent(topicPath.actionPath());
+
+    await this.deliverEvent(
+      topicPath,
+      {
+        service: topicPath.servicePath(),
+        event: this.getLastPathSegment(topicPath.actionPath()),
+        payload: payloadAv.value,
+        timestampMs: Date.now(),
+        deliveryId: message.correlation_id,
+      },
+      false
+    );
+    return ok(undefined);
+  }
+
   private getLocalServicesSnapshot = (): ServiceEntry[] => {
     return this.registry.getLocalServices();
   };
 
-  addService(service: AbstractService): void {
+  /**
+   * Register a service. Before start() the service is started with the others; on a
+   * running node it is initialized and started right away and peers are told about it.
+   */
+  async addService(service: AbstractService): Promise<Result<void, string>> {
     const serviceTopicResult = TopicPath.newService(this.networkId, service.path());
     if (!serviceTopicResult.ok) {
-      throw new Error(`Failed to create service topic: ${serviceTopicResult.error}`);
+      return err(`Failed to create service topic: ${serviceTopicResult.error}`);
+    }
+    if (this.findLocalService(service.path())) {
+      return err(`Service already registered: ${service.path()}`);
     }
     const serviceTopic = serviceTopicResult.value;
     const entry: ServiceEntry = {
@@ -273,24 +755,138 @@ export class Node {
       lastStartTime: undefined,
     };
     this.registry.addLocalService(entry);
+    if (!this.running) return ok(undefined);
+
+    this.logger?.info?.(`Hot adding service: ${serviceTopic}`);
+    const notRunning = this.dependenciesNotRunning(entry);
+    const result =
+      notRunning.length > 0
+        ? this.failWithDependencies(entry, notRunning)
+        : await this.startService(serviceTopic, entry, true);
+    if (!result.ok) {
+      this.supervisor.reportFailure(service.path(), errorMessage(result.error));
+      return result;
+    }
+    await this.announceLocalNodeInfo();
+    return ok(undefined);
+  }
+
+  /**
+   * Stop and unregister a service: its action handlers, subscriptions and service
+   * middleware are removed and peers get the updated NodeInfo.
+   */
+  async removeService(servicePath: string): Promise<Result<void, string>> {
+    const serviceEntry = this.findLocalService(servicePath);
+    if (!serviceEntry) return err(`Service not found: ${servicePath}`);
+    if (this.isInternalService(servicePath)) {
+      return err(`Internal service ${servicePath} cannot be removed`);
+    }
+
+    const dependents = this.registry
+      .getLocalServices()
+      .filter(entry => entry.service.dependencies?.().includes(servicePath))
+      .map(entry => entry.service.path());
+    if (dependents.length > 0) {
+      this.logger?.warn?.(`Removing ${servicePath} while ${dependents.join(', ')} depend on it`);
+    }
+
+    this.supervisor.forget(servicePath);
+    // Stopping also removes the service's action handlers and subscriptions
+    if (serviceEntry.serviceState !== ServiceState.Created) {
+      await this.stopService(serviceEntry);
+    }
+    this.registry.removeLocalService(servicePath);
+    this.middleware.clearService(servicePath);
+    this.logger?.info?.(`Removed service ${servicePath}`);
+
+    if (this.running) await this.announceLocalNodeInfo();
+    return ok(undefined);
+  }
+
+  /**
+   * Add a middleware that runs around every local action call, whether it comes
+   * from this node or arrives through handleNetworkMessage
+   */
+  addMiddleware(middleware: RequestMiddleware): void {
+    this.middleware.add(middleware);
+  }
+
+  /**
+   * Add a middleware that only runs around actions of the given service path
+   */
+  addServiceMiddleware(servicePath: string, middleware: RequestMiddleware): void {
+    this.middleware.addForService(servicePath, middleware);
+  }
+
+  removeMiddleware(middleware: RequestMiddleware): boolean {
+    return this.middleware.remove(middleware);
+  }
+
+  addKeysService(delegate: KeysManagerWrapper): Promise<Result<void, string>> {
+    return this.addService(new KeysService(delegate));
   }
 
-  addKeysService(delegate: KeysManagerWrapper): void {
-    this.addService(new KeysService(delegate));
+  // Internal services are only added when missing, so a rejection is a bug
+  private async addInternalService(service: AbstractService): Promise<void> {
+    const added = await this.addService(service);
+    if (!added.ok) {
+      throw new Error(`Failed to add internal service ${service.path()}: ${added.error}`);
+    }
   }
 
-  async start(): Promise<void> {
+  async start(): Promise<ServiceStartReport> {
     this.logger?.info?.('Starting node...');
+    const report: ServiceStartReport = { started: [], failed: [], timedOut: [] };
 
     if (this.running) {
       this.logger?.warn?.('Node already running');
-      return;
+      return report;
     }
 
-    // First, add the RegistryService as an internal service
-    const reg = new RegistryService(this.getLocalServicesSnapshot);
-    reg.setNetworkId(this.networkId);
-    this.addService(reg);
+    // Restore retained events so includePast works for services subscribing during start
+    await this.loadRetainedEvents();
+    // Services may publish guaranteed events from init/start
+    await this.outbox?.open();
+
+    // First, add the RegistryService as an internal service (kept across restarts of the node)
+    if (!this.findLocalService('$registry')) {
+      const reg = new RegistryService(this.getLocalServicesSnapshot, this, () =>
+        this.circuitBreakers.list()
+      );
+      reg.setNetworkId(this.networkId);
+      await this.addInternalService(reg);
+    }
+    if (!this.findLocalService('$metrics')) {
+      const metricsService = new MetricsService(
+        this.metrics,
+        this.config.getMetricsConfig().prometheus
+      );
+      metricsService.setNetworkId(this.networkId);
+      await this.addInternalService(metricsService);
+    }
+    if (!this.findLocalService('$health')) {
+      const healthService = new HealthService(
+        new HealthMonitor(
+          {
+            getLocalServices: this.getLocalServicesSnapshot,
+            networkingEnabled: (): boolean => this.supportsNetworking,
+            getTransport: (): QuicTransport | undefined => this.networkTransport,
+            getPeerIds: (): string[] => Array.from(this.peerNodeInfos.keys()),
+            keystore: this.keysWrapper,
+          },
+          this.config.getHealthConfig()
+        )
+      );
+      healthService.setNetworkId(this.networkId);
+      await this.addInternalService(healthService);
+    }
+    if (!this.findLocalService(DEAD_LETTER_SERVICE_PATH)) {
+      const deadLetterService = new DeadLetterService(this.deadLetters, letter =>
+        this.replayDeadLetter(letter)
+      );
+      deadLetterService.setNetworkId(this.networkId);
+      await this.addInternalService(deadLetterService);
+    }
 
     // Get all services including the newly added RegistryService
     const localServices = this.registry.getLocalServices();
@@ -303,9 +899,16 @@ export class Node {
       entry => !this.isInternalService(entry.service.path())
     );
 
+    // Services in a dependency cycle go to Error up front; the rest start around them
+    const cyclicServices = this.failDependencyCycles(nonInternalServices, report);
+    const serviceGraph = this.buildServiceGraph(
+      nonInternalServices.filter(entry => !cyclicServices.has(entry.service.path()))
+    );
+
     // Start internal services first
     for (const serviceEntry of internalServices) {
-      await this.startService(serviceEntry.serviceTopic, serviceEntry, false);
+      const result = await this.startService(serviceEntry.serviceTopic, serviceEntry, false);
+      this.recordStartOutcome(report, serviceEntry, result.ok ? 'started' : 'failed');
     }
 
     // Start networking if enabled
@@ -321,51 +924,201 @@ export class Node {
 
     this.logger?.info?.('Node started successfully - it will start all services now');
     this.running = true;
+    this.supervisor.start();
 
-    // Start non-internal services in parallel to avoid blocking the loop
+    // Start non-internal services in dependency order; independent services start in parallel
     const serviceStartTimeout = 30000; // 30 seconds timeout
-    const serviceTasks: Array<{ serviceTopic: TopicPath; task: Promise<void> }> = [];
-
-    for (const serviceEntry of nonInternalServices) {
-      const task = this.startServiceWithTimeout(
+    const entriesByPath = new Map(nonInternalServices.map(e => [e.service.path(), e]));
+    await serviceGraph.run(async (path, failedDependencies) => {
+      const serviceEntry = entriesByPath.get(path)!;
+      if (failedDependencies.length > 0) {
+        this.failWithDependencies(serviceEntry, failedDependencies);
+        this.recordStartOutcome(report, serviceEntry, 'failed');
+        return false;
+      }
+      const outcome = await this.startServiceWithTimeout(
         serviceEntry.serviceTopic,
         serviceEntry,
         serviceStartTimeout
       );
-      serviceTasks.push({ serviceTopic: serviceEntry.serviceTopic, task });
+      this.recordStartOutcome(report, serviceEntry, outcome);
+      return outcome === 'started';
+    });
+
+    // Let connected peers know about the services that are now running
+    await this.announceLocalNodeInfo();
+
+    // Resume guaranteed deliveries left over from a previous run, now that services subscribed
+    this.outbox?.resume();
+
+    this.retentionSweeper = setInterval(
+      () => this.sweepRetainedEvents(),
+      this.config.getRetentionSweepIntervalMs() ?? DEFAULT_RETENTION_SWEEP_INTERVAL_MS
+    );
+    this.retentionSweeper.unref?.();
+
+    this.logger?.info?.(
+      `Services started: ${report.started.length}, failed: ${report.failed.length}, timed out: ${report.timedOut.length}`
+    );
+
+    // Hand services that did not come up to the supervisor; a restart cannot break a cycle
+    for (const { servicePath, error } of report.failed) {
+      if (!cyclicServices.has(servicePath)) this.supervisor.reportFailure(servicePath, error);
+    }
+    for (const servicePath of report.timedOut) {
+      this.supervisor.reportFailure(servicePath, 'start timed out');
+    }
+    return report;
+  }
+
+  // Supervisor restart: stop -> init -> start, once the service's dependencies are running
+  private async restartService(servicePath: string): Promise<Result<void, string>> {
+    const serviceEntry = this.findLocalService(servicePath);
+    if (!serviceEntry) {
+      return err(`Service not found: ${servicePath}`);
     }
 
-    // Wait for all service tasks to complete
-    await Promise.allSettled(serviceTasks.map(({ task }) => task));
+    const notRunning = this.dependenciesNotRunning(serviceEntry);
+    if (notRunning.length > 0) {
+      return this.failWithDependencies(serviceEntry, notRunning);
+    }
+
+    await this.stopService(serviceEntry);
+    return this.startService(serviceEntry.serviceTopic, serviceEntry, true);
+  }
+
+  // Declared dependencies of the service that are not running on this node
+  private dependenciesNotRunning(serviceEntry: ServiceEntry): string[] {
+    return (serviceEntry.service.dependencies?.() ?? []).filter(
+      dependency =>
+        !this.isInternalService(dependency) &&
+        this.findLocalService(dependency)?.serviceState !== ServiceState.Running
+    );
+  }
+
+  private failWithDependencies(
+    serviceEntry: ServiceEntry,
+    dependencies: string[]
+  ): Result<void, string> {
+    const error = new ServiceDependencyError(serviceEntry.service.path(), dependencies);
+    this.logger?.error?.(error.message);
+    this.registry.updateServiceState(
+      serviceEntry.service.path(),
+      ServiceState.Error,
+      error.message
+    );
+    return err(error.message);
+  }
+
+  private async publishRestartEvent(event: RestartEvent): Promise<void> {
+    const payload = this.toPayloadAnyValue({
+      service_path: event.servicePath,
+      kind: event.kind,
+      attempt: event.attempt,
+      reason: event.reason,
+      delay_ms: event.delayMs ?? null,
+      error: event.error ?? null,
+    });
+    if (!payload.ok) throw new Error(payload.error);
+    const result = await this.publish(
+      `$registry/services/${event.servicePath}/restart`,
+      payload.value
+    );
+    if (!result.ok) throw result.error;
+  }
+
+  private recordStartOutcome(
+    report: ServiceStartReport,
+    serviceEntry: ServiceEntry,
+    outcome: 'started' | 'failed' | 'timedOut'
+  ): void {
+    const servicePath = serviceEntry.service.path();
+    if (outcome === 'started') {
+      report.started.push(servicePath);
+    } else if (outcome === 'timedOut') {
+      report.timedOut.push(servicePath);
+    } else {
+      report.failed.push({ servicePath, error: serviceEntry.lastError ?? 'Unknown error' });
+    }
   }
 
   private async startServiceWithTimeout(
     serviceTopic: TopicPath,
     serviceEntry: ServiceEntry,
     timeoutMs: number
-  ): Promise<void> {
+  ): Promise<'started' | 'failed' | 'timedOut'> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<'timedOut'>(resolve => {
+      timer = setTimeout(() => resolve('timedOut'), timeoutMs);
+    });
     try {
-      await Promise.race([
-        this.startService(serviceTopic, serviceEntry, true),
-        new Promise((_, reject) =>
-          setTimeout(
-            () =>
-              reject(new Error(`Service start timed out after ${timeoutMs}ms: ${serviceTopic}`)),
-            timeoutMs
-          )
+      const outcome = await Promise.race([
+        this.startService(serviceTopic, serviceEntry, true).then(result =>
+          result.ok ? ('started' as const) : ('failed' as const)
         ),
+        timedOut,
       ]);
-    } catch (error) {
-      this.logger?.error?.(`Service start failed for ${serviceTopic}: ${error}`);
+      if (outcome === 'timedOut') {
+        const message = `Service start timed out after ${timeoutMs}ms`;
+        this.logger?.error?.(`${message}: ${serviceTopic}`);
+        this.registry.updateServiceState(serviceEntry.service.path(), ServiceState.Error, message);
+      }
+      return outcome;
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Move every service that is part of a dependency cycle to ServiceState.Error and
+   * record it as failed. Their dependents then fail with a missing dependency.
+   */
+  private failDependencyCycles(entries: ServiceEntry[], report: ServiceStartReport): Set<string> {
+    const cyclic = new Set<string>();
+    let remaining = entries;
+    let cycle = this.buildServiceGraph(remaining).findCycle();
+    while (cycle) {
+      const error = new ServiceDependencyCycleError(cycle);
+      this.logger?.error?.(error.message);
+      const members = new Set(cycle);
+      for (const serviceEntry of remaining.filter(e => members.has(e.service.path()))) {
+        cyclic.add(serviceEntry.service.path());
+        this.registry.updateServiceState(
+          serviceEntry.service.path(),
+          ServiceState.Error,
+          error.message
+        );
+        this.recordStartOutcome(report, serviceEntry, 'failed');
+      }
+      remaining = remaining.filter(e => !members.has(e.service.path()));
+      cycle = this.buildServiceGraph(remaining).findCycle();
     }
+    return cyclic;
+  }
+
+  // Dependency graph of the given services; dependencies on internal services are always met
+  private buildServiceGraph(entries: ServiceEntry[]): ServiceDependencyGraph {
+    return new ServiceDependencyGraph(
+      entries.map(entry => ({
+        path: entry.service.path(),
+        dependencies: (entry.service.dependencies?.() ?? []).filter(
+          dependency => !this.isInternalService(dependency)
+        ),
+      }))
+    );
   }
 
+  /**
+   * Run init and start for a service. A failing or throwing init/start moves the
+   * service to ServiceState.Error with the failure recorded on its entry.
+   */
   private async startService(
     serviceTopic: TopicPath,
     serviceEntry: ServiceEntry,
     updateNodeVersion: boolean
-  ): Promise<void> {
+  ): Promise<Result<void, string>> {
     this.logger?.info?.(`[startService] Starting service: ${serviceTopic}`);
+    const servicePath = serviceEntry.service.path();
 
     // Create lifecycle context for the service
     const stopContext = new NodeLifecycleContextImpl(
@@ -375,26 +1128,147 @@ export class Node {
       this
     );
 
+    const fail = (phase: string, error: unknown): Result<void, string> => {
+      const message = `${phase} failed: ${errorMessage(error)}`;
+      this.logger?.error?.(`Service start failed for ${serviceTopic}: ${message}`);
+      this.registry.updateServiceState(servicePath, ServiceState.Error, message);
+      return err(message);
+    };
+
     // Initialize the service
-    await serviceEntry.service.init(stopContext);
-    this.registry.updateServiceState(serviceEntry.service.path(), ServiceState.Initialized);
+    try {
+      const initResult = await serviceEntry.service.init(stopContext);
+      if (!initResult.ok) return fail('init', initResult.error);
+    } catch (error) {
+      return fail('init', error);
+    }
+    this.registry.updateServiceState(servicePath, ServiceState.Initialized);
 
     // Start the service
-    await serviceEntry.service.start(stopContext);
-    this.registry.updateServiceState(serviceEntry.service.path(), ServiceState.Running);
+    try {
+      const startResult = await serviceEntry.service.start(stopContext);
+      if (!startResult.ok) return fail('start', startResult.error);
+    } catch (error) {
+      return fail('start', error);
+    }
+    this.registry.updateServiceState(servicePath, ServiceState.Running);
 
     this.logger?.info?.(`Service start completed: ${serviceTopic}`);
+    return ok(undefined);
   }
 
-  private isInternalService(servicePath: string): boolean {
-    // Internal services are $registry and $keys (matching Rust INTERNAL_SERVICES)
-    const internalServices = ['$registry', '$keys'];
+  /**
+   * Pause a running service: its pause() hook runs, then requests to it are queued or
+   * rejected according to its pause policy until resumeService() is called.
+   */
+  async pauseService(servicePath: string): Promise<Result<void, string>> {
+    const serviceEntry = this.findLocalService(servicePath);
+    if (!serviceEntry) return err(`Service not found: ${servicePath}`);
+    if (this.isInternalService(servicePath)) {
+      return err(`Internal service ${servicePath} cannot be paused`);
+    }
+    if (serviceEntry.serviceState !== ServiceState.Running) {
+      return err('Service must be Running to pause');
+    }
 
-    // Check if it starts with an internal service directly (exact match or followed by /)
-    for (const internal of internalServices) {
-      if (servicePath === internal || servicePath.startsWith(`${internal}/`)) {
-        return true;
-      }
+    const hookResult = await this.runPauseHook(serviceEntry, 'pause');
+    if (!hookResult.ok) return hookResult;
+    this.pauseGate.pause(servicePath);
+    this.registry.updateServiceState(servicePath, ServiceState.Paused);
+    return ok(undefined);
+  }
+
+  // Resume a paused service; queued requests are then handled in arrival order
+  async resumeService(servicePath: string): Promise<Result<void, string>> {
+    const serviceEntry = this.findLocalService(servicePath);
+    if (!serviceEntry) return err(`Service not found: ${servicePath}`);
+    if (serviceEntry.serviceState !== ServiceState.Paused) {
+      return err('Service must be Paused to resume');
+    }
+
+    const hookResult = await this.runPauseHook(serviceEntry, 'resume');
+    if (!hookResult.ok) return hookResult;
+    this.registry.updateServiceState(servicePath, ServiceState.Running);
+    this.pauseGate.resume(servicePath);
+    return ok(undefined);
+  }
+
+  private async runPauseHook(
+    serviceEntry: ServiceEntry,
+    hook: 'pause' | 'resume'
+  ): Promise<Result<void, string>> {
+    const context = new NodeLifecycleContextImpl(
+      serviceEntry.serviceTopic.networkId(),
+      serviceEntry.serviceTopic.servicePath(),
+      this.logger,
+      this
+    );
+    try {
+      const result = await serviceEntry.service[hook]?.(context);
+      if (result && !result.ok) return err(`${hook} failed: ${errorMessage(result.error)}`);
+      return ok(undefined);
+    } catch (error) {
+      return err(`${hook} failed: ${errorMessage(error)}`);
+    }
+  }
+
+  private findLocalService(servicePath: string): ServiceEntry | undefined {
+    return this.registry.getLocalServices().find(entry => entry.service.path() === servicePath);
+  }
+
+  private async stopService(serviceEntry: ServiceEntry): Promise<boolean> {
+    this.logger?.info?.(`Stopping service: ${serviceEntry.serviceTopic}`);
+    this.pauseGate.close(
+      serviceEntry.service.path(),
+      `Service ${serviceEntry.service.path()} stopped while the request was queued`
+    );
+
+    // Create a lifecycle context for stopping
+    const stopContext = new NodeLifecycleContextImpl(
+      serviceEntry.serviceTopic.networkId(),
+      serviceEntry.serviceTopic.servicePath(),
+      this.logger,
+      this
+    );
+
+    // Stop the service using the context
+    let stopped = true;
+    try {
+      await serviceEntry.service.stop(stopContext);
+      this.registry.updateServiceState(serviceEntry.service.path(), ServiceState.Stopped);
+    } catch (error) {
+      this.logger?.error?.(`Failed to stop service: ${serviceEntry.serviceTopic}, error: ${error}`);
+      stopped = false;
+    }
+
+    // Whatever the service registered through its lifecycle contexts goes away with it
+    const actions = this.registry.removeServiceActionHandlers(serviceEntry.serviceTopic);
+    const subscriptions = this.registry.unsubscribeService(serviceEntry.serviceTopic);
+    this.logger?.debug?.(
+      `Released ${actions} actions and ${subscriptions.length} subscriptions of ${serviceEntry.serviceTopic}`
+    );
+    if (subscriptions.length > 0 && this.running) {
+      await this.announceLocalNodeInfo();
+    }
+    return stopped;
+  }
+
+  private isInternalService(servicePath: string): boolean {
+    // Internal services are $registry and $keys (matching Rust INTERNAL_SERVICES), plus $metrics,
+    // $health and $deadletter
+    const internalServices = [
+      '$registry',
+      '$keys',
+      '$metrics',
+      '$health',
+      DEAD_LETTER_SERVICE_PATH,
+    ];
+
+    // Check if it starts with an internal service directly (exact match or followed by /)
+    for (const internal of internalServices) {
+      if (servicePath === internal || servicePath.startsWith(`${internal}/`)) {
+        return true;
+      }
     }
 
     // Check if it has the pattern <network_id>:<internal_service>/...
@@ -420,33 +1294,42 @@ export class Node {
     }
 
     this.running = false;
+    this.supervisor.stop();
+    this.outbox?.stop();
+    this.streamSessions.closeAll();
+    await Promise.all(Array.from(this.eventStreams, end => end()));
+    this.eventRetries.abort();
+    this.eventRetries = new AbortController();
+    if (this.retentionSweeper) {
+      clearInterval(this.retentionSweeper);
+      this.retentionSweeper = undefined;
+    }
 
     // Get services directly and stop them
     const localServices = this.registry.getLocalServices();
+    const internalServices = localServices.filter(entry =>
+      this.isInternalService(entry.service.path())
+    );
+    const nonInternalServices = localServices.filter(
+      entry => !this.isInternalService(entry.service.path())
+    );
 
     this.logger?.info?.('Stopping services...');
-    // Stop each service
-    for (const serviceEntry of localServices) {
-      this.logger?.info?.(`Stopping service: ${serviceEntry.serviceTopic}`);
-
-      // Create a lifecycle context for stopping
-      const stopContext = new NodeLifecycleContextImpl(
-        serviceEntry.serviceTopic.networkId(),
-        serviceEntry.serviceTopic.servicePath(),
-        this.logger,
-        this
-      );
-
-      // Stop the service using the context
-      try {
-        await serviceEntry.service.stop(stopContext);
-        this.registry.updateServiceState(serviceEntry.service.path(), ServiceState.Stopped);
-      } catch (error) {
-        this.logger?.error?.(
-          `Failed to stop service: ${serviceEntry.serviceTopic}, error: ${error}`
-        );
+    // Stop each service after the services that depend on it, then the internal services
+    const entriesByPath = new Map(nonInternalServices.map(e => [e.service.path(), e]));
+    const serviceGraph = this.buildServiceGraph(nonInternalServices);
+    if (serviceGraph.findCycle()) {
+      for (const serviceEntry of nonInternalServices) {
+        await this.stopService(serviceEntry);
       }
+    } else {
+      await serviceGraph.run(async path => this.stopService(entriesByPath.get(path)!), true);
+    }
+    for (const serviceEntry of internalServices) {
+      await this.stopService(serviceEntry);
     }
+    // Let the Stopped state_changed events reach subscribers and the retained store
+    await this.serviceStateEvents;
 
     // Stop networking if enabled
     if (this.supportsNetworking && this.networkTransport && this.networkDiscovery) {
@@ -457,15 +1340,154 @@ export class Node {
       } catch (error) {
         this.logger?.error?.(`Failed to stop networking: ${error}`);
       }
+      for (const remoteService of this.registry.getAllRemoteServices()) {
+        await this.removeRemoteService(remoteService);
+      }
+      this.removeRemoteSubscriptions();
+      this.peerNodeInfos.clear();
     }
 
     this.logger?.info?.('Node stopped successfully');
   }
 
+  // Store a retained event, applying the topic's retention policy, and persist it
+  private async retainEvent(
+    topicPath: TopicPath,
+    message: EventMessage,
+    retainForMs?: number
+  ): Promise<void> {
+    const ts = message.timestampMs || Date.now();
+    const payload = message.payload ?? AnyValue.null();
+    const expiresAtMs = this.retentionPolicies.expiresAt(topicPath, ts, retainForMs);
+    const { maxEvents } = this.retentionPolicies.policyFor(topicPath);
+    this.logger?.debug?.(
+      `Storing retained event for topic: ${topicPath}, service: ${message.service}, event: ${message.event}`
+    );
+    const trimmed = this.addRetainedEvent(
+      topicPath,
+      { ts, event: message.event, payload, expiresAtMs },
+      maxEvents
+    );
+
+    try {
+      const bytes = payload.serialize(this.createSerializationContext());
+      if (!bytes.ok) {
+        throw bytes.error;
+      }
+      await this.retainedStore.append({
+        topic: topicPath.asString(),
+        timestampMs: ts,
+        expiresAtMs,
+        payload: bytes.value,
+      });
+      if (trimmed) {
+        await this.retainedStore.trim(topicPath.asString(), maxEvents);
+      }
+    } catch (error) {
+      this.logger?.warn?.(`Failed to persist retained event for ${topicPath}: ${error}`);
+    }
+  }
+
+  // Add an event to the in-memory retained set; returns true when older events were evicted
+  private addRetainedEvent(
+    topicPath: TopicPath,
+    entry: { ts: number; event: string; payload: AnyValue; expiresAtMs?: number },
+    maxEvents: number
+  ): boolean {
+    const key = this.retainedKey(topicPath);
+    const list = this.retainedEvents.get(key) ?? [];
+    list.push(entry);
+    const trimmed = list.length > maxEvents;
+    if (trimmed) {
+      list.splice(0, list.length - maxEvents);
+    }
+    this.retainedEvents.set(key, list);
+    this.retainedIndex.setValue(topicPath, key);
+    this.retainedKeyToTopic.set(key, topicPath);
+    this.logger?.debug?.(`Retained events for key ${key}: ${list.length} events`);
+    return trimmed;
+  }
+
+  private retainedKey(topicPath: TopicPath): string {
+    return `${topicPath.networkId()}:${topicPath.servicePath()}/${topicPath.actionPath()}`;
+  }
+
+  // Restore retained events from the store (called from start())
+  private async loadRetainedEvents(): Promise<void> {
+    let stored: StoredRetainedEvent[];
+    try {
+      stored = await this.retainedStore.load();
+    } catch (error) {
+      this.logger?.error?.(`Failed to load retained events: ${error}`);
+      return;
+    }
+
+    // The store is the source of truth; drop whatever a previous run left in memory
+    this.retainedEvents.clear();
+    this.retainedIndex = new PathTrie<string>();
+    this.retainedKeyToTopic.clear();
+
+    const now = Date.now();
+    let loaded = 0;
+    for (const event of stored.sort((a, b) => a.timestampMs - b.timestampMs)) {
+      if (event.expiresAtMs !== undefined && event.expiresAtMs <= now) continue;
+      const topicPathResult = TopicPath.new(event.topic, this.networkId);
+      if (!topicPathResult.ok) {
+        this.logger?.warn?.(`Skipping retained event with invalid topic ${event.topic}`);
+        continue;
+      }
+      const payload = AnyValue.deserialize(event.payload, this.keysWrapper);
+      if (!payload.ok) {
+        this.logger?.warn?.(`Skipping retained event on ${event.topic}: ${payload.error.message}`);
+        continue;
+      }
+      const topicPath = topicPathResult.value;
+      this.addRetainedEvent(
+        topicPath,
+        {
+          ts: event.timestampMs,
+          event: this.getLastPathSegment(topicPath.actionPath()),
+          payload: payload.value,
+          expiresAtMs: event.expiresAtMs,
+        },
+        this.retentionPolicies.policyFor(topicPath).maxEvents
+      );
+      loaded++;
+    }
+    this.logger?.debug?.(`Loaded ${loaded} retained events`);
+  }
+
+  // Drop expired retained events; topics left without events are removed from the index
+  private sweepRetainedEvents(now = Date.now()): number {
+    let removed = 0;
+    for (const [key, list] of this.retainedEvents) {
+      const live = list.filter(e => e.expiresAtMs === undefined || e.expiresAtMs > now);
+      removed += list.length - live.length;
+      if (live.length > 0) {
+        this.retainedEvents.set(key, live);
+        continue;
+      }
+      this.retainedEvents.delete(key);
+      const topic = this.retainedKeyToTopic.get(key);
+      if (topic) {
+        this.retainedIndex.removeValues(topic);
+        this.retainedKeyToTopic.delete(key);
+      }
+    }
+    if (removed > 0) {
+      this.logger?.debug?.(`Retention sweep removed ${removed} expired events`);
+      this.retainedStore
+        .expire(now)
+        .catch(error => this.logger?.warn?.(`Failed to expire stored retained events: ${error}`));
+    }
+    return removed;
+  }
+
   // Helper method to get retained events for a topic
-  private getRetainedEvents(topicPath: TopicPath): EventMessage[] {
+  private getRetainedEvents(topicPath: TopicPath): Array<EventMessage & { topicPath: TopicPath }> {
     const matchedKeys = this.retainedIndex.findWildcardMatches(topicPath).map(m => m.content);
-    const events: EventMessage[] = [];
+    const events: Array<EventMessage & { topicPath: TopicPath }> = [];
+    const now = Date.now();
 
     for (const key of matchedKeys) {
       const list = this.retainedEvents.get(key);
@@ -473,12 +1495,16 @@ export class Node {
         const topic = this.retainedKeyToTopic.get(key);
         if (topic) {
           events.push(
-            ...list.map(event => ({
-              service: topic.servicePath(),
-              event: event.event,
-              payload: event.payload,
-              timestampMs: event.ts,
-            }))
+            // Expired events are skipped even before the sweeper prunes them
+            ...list
+              .filter(event => event.expiresAtMs === undefined || event.expiresAtMs > now)
+              .map(event => ({
+                topicPath: topic,
+                service: topic.servicePath(),
+                event: event.event,
+                payload: event.payload,
+                timestampMs: event.ts,
+              }))
           );
         }
       }
@@ -508,6 +1534,9 @@ export class Node {
         // Remove exact mapping from index
         this.retainedIndex.removeValues(topic);
         this.retainedKeyToTopic.delete(key);
+        this.retainedStore
+          .remove(topic.asString())
+          .catch(error => this.logger?.warn?.(`Failed to remove stored retained events: ${error}`));
       }
       if (this.retainedEvents.delete(key)) removed++;
     }
@@ -519,86 +1548,200 @@ export class Node {
   /**
    * Local request method - only tries local handlers, matches Rust local_request
    */
-  async local_request<P = unknown>(path: string, payload?: P): Promise<Result<AnyValue, string>> {
+  async local_request<P = unknown>(
+    path: string,
+    payload?: P,
+    options?: RequestOptions
+  ): Promise<Result<AnyValue, string>> {
     this.logger?.debug?.(`local_request called with path: ${path}`);
-    try {
-      if (!this.running) return err('Node not started');
-
-      const topicPathResult = TopicPath.new(path, this.networkId);
-      if (!topicPathResult.ok) {
-        return err(`Invalid topic path: ${topicPathResult.error}`);
-      }
-      const topicPath = topicPathResult.value;
-
-      const handlers = this.registry.findLocalActionHandlers(topicPath);
-      if (handlers.length === 0) {
-        return err(`No local handler for ${path}`);
-      }
-
-      // In-memory AnyValue path
-      const payloadAv =
-        payload !== undefined
-          ? payload instanceof AnyValue
-            ? payload
-            : AnyValue.from(payload)
-          : AnyValue.null();
-      const service = topicPath.servicePath();
-      const actionPath = topicPath.actionPath();
-      const action = this.getLastPathSegment(actionPath);
-      const requestId = uuidv4();
-
-      // Extract path parameters from the action path (everything after service)
-      const pathParams = this.extractPathParams(topicPath);
-
-      // Create RequestContext for handler
-      const requestContext: RequestContext = {
-        topicPath,
-        node: this,
-        networkId: this.networkId,
-        logger: this.logger?.withActionPath?.(`${service}/${action}`) || this.logger,
-        pathParams,
-        request: this.request.bind(this),
-        publish: this.publish.bind(this),
-        debug: (message: string) => this.logger?.debug?.(message),
-        info: (message: string) => this.logger?.info?.(message),
-        warn: (message: string) => this.logger?.warn?.(message),
-        error: (message: string) => this.logger?.error?.(message),
-      };
-
-      // Call handler with new signature
-      const res = await handlers[0]!(payloadAv, requestContext);
-      if (res.ok && res.value) {
-        return ok(res.value);
-      }
-      return err(!res.ok ? res.error : 'Unknown error');
-    } catch (error) {
-      return err(error instanceof Error ? error.message : String(error));
-    }
+    if (!this.running) return err('Node not started');
+    return this.measureRequest(path, () =>
+      this.withRequestDeadline(path, options, signal =>
+        this.dispatchLocalRequest(path, payload, signal)
+      )
+    );
   }
 
   /**
    * Remote request method - only tries remote handlers, matches Rust remote_request
    */
-  async remote_request<P = unknown>(path: string, payload?: P): Promise<Result<AnyValue, string>> {
+  async remote_request<P = unknown>(
+    path: string,
+    payload?: P,
+    options?: RequestOptions
+  ): Promise<Result<AnyValue, string>> {
     this.logger?.debug?.(`remote_request called with path: ${path}`);
-
-    if (!this.supportsNetworking || !this.networkTransport) {
-      return err('Remote requests require networking to be enabled');
-    }
-
-    // Implementation would use RemoteService discovery and request routing
-    // For now, no remote services are discovered/registered
-    return err(`No remote service found for path: ${path}`);
+    if (!this.running) return err('Node not started');
+    return this.measureRequest(path, () =>
+      this.withRequestDeadline(path, options, signal =>
+        this.dispatchToProvider(path, payload, signal, undefined, options?.routingKey)
+      )
+    );
   }
 
   /**
    * Rust-compatible request method - matches Rust API exactly with smart routing
    */
-  async request<P = unknown>(path: string, payload?: P): Promise<Result<AnyValue, string>> {
+  async request<P = unknown>(
+    path: string,
+    payload?: P,
+    options?: RequestOptions
+  ): Promise<Result<AnyValue, string>> {
     this.logger?.debug?.(`request called with path: ${path}`);
+    if (!this.running) return err('Node not started');
+    return this.measureRequest(path, () =>
+      this.withRequestDeadline(path, options, signal =>
+        this.dispatchRequest(path, payload, signal, options?.routingKey)
+      )
+    );
+  }
+
+  /**
+   * Request a streaming action. Chunks are produced as the caller consumes them, so a
+   * slow consumer slows the handler down. Leaving the loop early or aborting
+   * options.signal cancels the stream; the signal ends the iteration with a
+   * RequestCancelledError, and a chunk that takes longer than the request timeout with
+   * a RequestTimeoutError. Middleware, rate limits and the pause gate apply when the
+   * stream opens. The provider is chosen by the service's load balancing strategy;
+   * remote providers need a transport that supports streams, and each stream counts as
+   * one call to the provider's circuit breaker.
+   */
+  async *requestStream<P = unknown>(
+    path: string,
+    payload?: P,
+    options?: RequestOptions
+  ): AsyncGenerator<AnyValue> {
+    this.logger?.debug?.(`requestStream called with path: ${path}`);
+    if (!this.running) throw new Error('Node not started');
+    if (options?.signal?.aborted) throw new RequestCancelledError(path);
+
+    const topicPathResult = TopicPath.new(path, this.networkId);
+    if (!topicPathResult.ok) throw new Error(`Invalid topic path: ${topicPathResult.error}`);
+    const topicPath = topicPathResult.value;
+    const servicePath = topicPath.servicePath();
+    const serviceTopic = TopicPath.newService(this.networkId, servicePath);
+    if (!serviceTopic.ok) throw new Error(`Failed to create service topic: ${serviceTopic.error}`);
+    const payloadAv = this.toPayloadAnyValue(payload);
+    if (!payloadAv.ok) throw new Error(`Invalid payload: ${payloadAv.error}`);
+
+    // As for requests, a local service that is not running leaves the stream to remote providers
+    const serviceState = this.registry.getLocalServiceState(serviceTopic.value);
+    const localAvailable =
+      serviceState === undefined ||
+      serviceState === ServiceState.Running ||
+      serviceState === ServiceState.Paused;
+    const localHandler = localAvailable
+      ? this.registry.findLocalStreamHandlers(topicPath).at(0)
+      : undefined;
+    const remoteServices = new Map(
+      (this.supportsNetworking ? this.registry.getRemoteServices(serviceTopic.value) : [])
+        .filter(remoteService => remoteService.isRunning())
+        .map(remoteService => [remoteService.getPeerNodeId(), remoteService])
+    );
+    const candidates = [
+      ...(localHandler ? [LOCAL_PROVIDER_ID] : []),
+      ...Array.from(remoteServices.keys()).filter(
+        peerId => this.circuitBreakers.stateOf(peerId, servicePath) !== 'open'
+      ),
+    ];
+    const provider = this.serviceProviders.select(servicePath, candidates, options?.routingKey);
+    if (!provider) {
+      if (!localAvailable) {
+        throw new Error(`Service is not Running - it is in ${serviceState} state`);
+      }
+      throw new Error(`No stream handler found for path: ${path}`);
+    }
+    if (!provider.local) {
+      const admitted = this.circuitBreakers.admit(provider.id, servicePath);
+      if (!admitted.ok) throw toError(admitted.error);
+    }
+
+    // Aborted when the caller's signal aborts or the iteration ends
+    const controller = new AbortController();
+    const onAbort = (): void => controller.abort();
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+    const done = this.serviceProviders.begin(servicePath, provider.id);
+    const startedAt = performance.now();
+    let failure: unknown;
     try {
-      if (!this.running) return err('Node not started');
+      const source = provider.local
+        ? this.runLocalStream(localHandler!, topicPath, payloadAv.value, controller.signal)
+        : remoteServices
+            .get(provider.id)!
+            .requestStream(topicPath.getSegments().slice(1).join('/'), payloadAv.value, {
+              correlationId: uuidv4(),
+              node: this,
+            });
+      const chunkTimeoutMs = options?.timeoutMs ?? this.config.requestTimeoutMs;
+      yield* iterateWithSignal(source, controller.signal, path, chunkTimeoutMs);
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      options?.signal?.removeEventListener('abort', onAbort);
+      controller.abort();
+      done();
+      if (!provider.local) {
+        if (isTransportError(failure)) {
+          this.circuitBreakers.recordFailure(provider.id, servicePath, failure.message);
+        } else {
+          this.circuitBreakers.recordSuccess(provider.id, servicePath);
+        }
+      }
+      this.recordRequest(path, startedAt, failure === undefined);
+    }
+  }
+
+  // Run a local streaming handler under the action's rate limit, its service's pause gate
+  // and the middleware chain
+  private async *runLocalStream(
+    handler: StreamingActionHandler,
+    topicPath: TopicPath,
+    payload: AnyValue,
+    signal: AbortSignal
+  ): AsyncGenerator<AnyValue> {
+    const acquired = this.rateLimiter.acquire(topicPath);
+    if (!acquired.ok) throw toError(acquired.error);
+    try {
+      const admitted = await this.pauseGate.admit(topicPath.servicePath(), signal);
+      if (!admitted.ok) throw toError(admitted.error);
+      const context = this.createRequestContext(topicPath, signal);
+      const source = await this.middleware.openStream(handler, topicPath, payload, context);
+      if (!source.ok) throw toError(source.error);
+      yield* source.value;
+    } finally {
+      acquired.value();
+    }
+  }
+
+  private async measureRequest(
+    path: string,
+    run: () => Promise<Result<AnyValue, string>>
+  ): Promise<Result<AnyValue, string>> {
+    const startedAt = performance.now();
+    const result = await run();
+    this.recordRequest(path, startedAt, result.ok);
+    return result;
+  }
+
+  // Record count, outcome and latency of a request under its registered action path
+  private recordRequest(path: string, startedAt: number, succeeded: boolean): void {
+    const topicPath = TopicPath.new(path, this.networkId);
+    const actionPath = topicPath.ok
+      ? (this.registry.findActionRegistration(topicPath.value) ?? topicPath.value).actionPath()
+      : path;
+    this.metrics.recordRequest(actionPath, performance.now() - startedAt, succeeded);
+  }
 
+  // Smart routing: the service's load balancing strategy chooses between the local handler
+  // and the remote providers (prefer-local by default)
+  private async dispatchRequest<P>(
+    path: string,
+    payload: P | undefined,
+    signal: AbortSignal,
+    routingKey?: string
+  ): Promise<Result<AnyValue, string>> {
+    try {
       const topicPathResult = TopicPath.new(path, this.networkId);
       if (!topicPathResult.ok) {
         return err(`Invalid topic path: ${topicPathResult.error}`);
@@ -614,14 +1757,20 @@ export class Node {
       const serviceState = this.registry.getLocalServiceState(serviceTopic.value);
       this.logger?.debug?.(`Service ${topicPath.servicePath()} state: ${serviceState}`);
 
-      // If service state exists, check if it's running
-      if (serviceState !== undefined) {
+      // If service state exists, check if it's running (paused services queue or reject locally)
+      if (serviceState !== undefined && serviceState !== ServiceState.Paused) {
         if (serviceState !== ServiceState.Running) {
           this.logger?.debug?.(
             `Service ${topicPath.servicePath()} is in ${serviceState} state, trying remote handlers`
           );
           // Try remote handlers instead
-          const remoteResult = await this.remote_request(path, payload);
+          const remoteResult = await this.dispatchToProvider(
+            path,
+            payload,
+            signal,
+            undefined,
+            routingKey
+          );
           if (remoteResult.ok) {
             return remoteResult;
           } else {
@@ -637,50 +1786,252 @@ export class Node {
       if (handlers.length === 0) {
         // No local handler found - try remote handlers
         this.logger?.debug?.(`No local handlers found for ${topicPath}, trying remote`);
-        return await this.remote_request(path, payload);
       }
+      return await this.dispatchToProvider(path, payload, signal, handlers[0], routingKey);
+    } catch (error) {
+      return err(error instanceof Error ? error.message : String(error));
+    }
+  }
 
-      // In-memory AnyValue path
-      const payloadAv =
-        payload !== undefined
-          ? payload instanceof AnyValue
-            ? payload
-            : AnyValue.from(payload)
-          : AnyValue.null();
-      const service = topicPath.servicePath();
-      const actionPath = topicPath.actionPath();
-      const action = actionPath.split('/').pop() || '';
-      const requestId = uuidv4();
+  private async dispatchLocalRequest<P>(
+    path: string,
+    payload: P | undefined,
+    signal: AbortSignal
+  ): Promise<Result<AnyValue, string>> {
+    try {
+      const topicPathResult = TopicPath.new(path, this.networkId);
+      if (!topicPathResult.ok) {
+        return err(`Invalid topic path: ${topicPathResult.error}`);
+      }
+      const topicPath = topicPathResult.value;
 
-      // Extract path parameters from the action path (everything after service)
-      const pathParams = this.extractPathParams(topicPath);
+      const handlers = this.registry.findLocalActionHandlers(topicPath);
+      if (handlers.length === 0) {
+        return err(`No local handler for ${path}`);
+      }
 
-      // Create RequestContext for handler
-      const requestContext: RequestContext = {
-        topicPath,
-        node: this,
-        networkId: this.networkId,
-        logger: this.logger?.withActionPath?.(`${service}/${action}`) || this.logger,
-        pathParams,
-        request: this.request.bind(this),
-        publish: this.publish.bind(this),
-        debug: (message: string) => this.logger?.debug?.(message),
-        info: (message: string) => this.logger?.info?.(message),
-        warn: (message: string) => this.logger?.warn?.(message),
-        error: (message: string) => this.logger?.error?.(message),
-      };
+      const payloadAv = this.toPayloadAnyValue(payload);
+      if (!payloadAv.ok) {
+        return err(`Invalid payload: ${payloadAv.error}`);
+      }
+
+      return await this.invokeLocalHandler(handlers[0]!, topicPath, payloadAv.value, signal);
+    } catch (error) {
+      return err(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Send a request to a provider of the service: the local handler, when given, or a
+   * remote provider, chosen by the service's load balancing strategy. Providers whose
+   * circuit is open are skipped. Transport failures are retried per the retry policy
+   * and counted by the provider's circuit breaker.
+   */
+  private async dispatchToProvider<P>(
+    path: string,
+    payload: P | undefined,
+    signal: AbortSignal,
+    localHandler?: ActionHandler,
+    routingKey?: string
+  ): Promise<Result<AnyValue, string>> {
+    if (!localHandler && (!this.supportsNetworking || !this.networkTransport)) {
+      return err('Remote requests require networking to be enabled');
+    }
+
+    try {
+      const topicPathResult = TopicPath.new(path, this.networkId);
+      if (!topicPathResult.ok) {
+        return err(`Invalid topic path: ${topicPathResult.error}`);
+      }
+      const topicPath = topicPathResult.value;
+      const servicePath = topicPath.servicePath();
 
-      // Call handler with new signature
-      const res = await handlers[0]!(payloadAv, requestContext);
-      if (res.ok && res.value) {
-        return ok(res.value);
+      const serviceTopic = TopicPath.newService(topicPath.networkId(), servicePath);
+      if (!serviceTopic.ok) {
+        return err(`Failed to create service topic: ${serviceTopic.error}`);
       }
-      return err(!res.ok ? res.error : 'Unknown error');
+
+      const payloadAv = this.toPayloadAnyValue(payload);
+      if (!payloadAv.ok) {
+        return err(`Invalid payload: ${payloadAv.error}`);
+      }
+
+      // The action name is everything after the service segment
+      const actionName = topicPath.getSegments().slice(1).join('/');
+      const retryPolicy =
+        this.config.getRetryPolicies().get(servicePath) ?? this.config.getDefaultRetryPolicy();
+
+      return await withRetries(
+        retryPolicy,
+        signal,
+        async () => {
+          const remoteServices = new Map(
+            this.registry
+              .getRemoteServices(serviceTopic.value)
+              .filter(remoteService => remoteService.isRunning())
+              .map(remoteService => [remoteService.getPeerNodeId(), remoteService])
+          );
+          const candidates = [
+            ...(localHandler ? [LOCAL_PROVIDER_ID] : []),
+            ...remoteServices.keys(),
+          ];
+          if (candidates.length === 0) {
+            return err(`No remote service found for path: ${path}`);
+          }
+
+          let rejected: Result<AnyValue, string> | undefined;
+          for (;;) {
+            const provider = this.serviceProviders.select(servicePath, candidates, routingKey);
+            if (!provider) return rejected!;
+            const done = this.serviceProviders.begin(servicePath, provider.id);
+            try {
+              if (provider.local) {
+                return await this.invokeLocalHandler(
+                  localHandler!,
+                  topicPath,
+                  payloadAv.value,
+                  signal
+                );
+              }
+
+              const admitted = this.circuitBreakers.admit(provider.id, servicePath);
+              if (!admitted.ok) {
+                rejected ??= err(admitted.error);
+                candidates.splice(candidates.indexOf(provider.id), 1);
+                continue;
+              }
+              const result = await remoteServices
+                .get(provider.id)!
+                .request(actionName, payloadAv.value, { correlationId: uuidv4(), node: this });
+              if (!result.ok && isTransportError(result.error)) {
+                this.circuitBreakers.recordFailure(provider.id, servicePath, result.error.message);
+              } else {
+                this.circuitBreakers.recordSuccess(provider.id, servicePath);
+              }
+              return result;
+            } finally {
+              done();
+            }
+          }
+        },
+        isTransportError
+      );
     } catch (error) {
       return err(error instanceof Error ? error.message : String(error));
     }
   }
 
+  // Call a local action handler through the middleware chain
+  private async invokeLocalHandler(
+    handler: ActionHandler,
+    topicPath: TopicPath,
+    payload: AnyValue,
+    signal: AbortSignal,
+    caller?: CallerIdentity
+  ): Promise<Result<AnyValue, string>> {
+    // Requests over their rate or concurrency limit fail before reaching the service
+    const acquired = this.rateLimiter.acquire(topicPath, caller);
+    if (!acquired.ok) return err(acquired.error);
+    try {
+      return await this.runLocalHandler(handler, topicPath, payload, signal);
+    } finally {
+      acquired.value();
+    }
+  }
+
+  private async runLocalHandler(
+    handler: ActionHandler,
+    topicPath: TopicPath,
+    payload: AnyValue,
+    signal: AbortSignal
+  ): Promise<Result<AnyValue, string>> {
+    // Requests for a paused service wait in its queue or are rejected
+    const admitted = await this.pauseGate.admit(topicPath.servicePath(), signal);
+    if (!admitted.ok) return err(admitted.error);
+
+    const requestContext = this.createRequestContext(topicPath, signal);
+    let res: Result<AnyValue, string>;
+    try {
+      res = await this.middleware.execute(handler, topicPath, payload, requestContext);
+    } catch (error) {
+      // Handlers that keep throwing get their service restarted by the supervisor
+      this.supervisor.reportHandlerFailure(topicPath.servicePath(), errorMessage(error));
+      throw error;
+    }
+    this.supervisor.reportHandlerSuccess(topicPath.servicePath());
+    if (res.ok && res.value) {
+      return ok(res.value);
+    }
+    return err(!res.ok ? res.error : 'Unknown error');
+  }
+
+  private createRequestContext(topicPath: TopicPath, signal: AbortSignal): RequestContext {
+    const service = topicPath.servicePath();
+    const action = this.getLastPathSegment(topicPath.actionPath());
+    return {
+      topicPath,
+      node: this,
+      networkId: this.networkId,
+      logger: this.logger?.withActionPath?.(`${service}/${action}`) || this.logger,
+      // Extract path parameters from the action path (everything after service)
+      pathParams: this.extractPathParams(topicPath),
+      signal,
+      // Nested requests are cancelled together with the request that issued them
+      request: (path, payload) => this.request(path, payload, { signal }),
+      publish: this.publish.bind(this),
+      debug: (message: string) => this.logger?.debug?.(message),
+      info: (message: string) => this.logger?.info?.(message),
+      warn: (message: string) => this.logger?.warn?.(message),
+      error: (message: string) => this.logger?.error?.(message),
+    };
+  }
+
+  /**
+   * Run a request under a deadline (options.timeoutMs or NodeConfig.requestTimeoutMs).
+   * The signal handed to the request is aborted on timeout or when the caller's
+   * signal aborts; the caller gets a RequestTimeoutError or RequestCancelledError.
+   */
+  private async withRequestDeadline(
+    path: string,
+    options: RequestOptions | undefined,
+    run: (signal: AbortSignal) => Promise<Result<AnyValue, string>>
+  ): Promise<Result<AnyValue, string>> {
+    const callerSignal = options?.signal;
+    if (callerSignal?.aborted) {
+      return err(new RequestCancelledError(path));
+    }
+
+    const timeoutMs = options?.timeoutMs ?? this.config.requestTimeoutMs;
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    let onCallerAbort: (() => void) | undefined;
+
+    const deadline = new Promise<Result<AnyValue, string>>(resolve => {
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          const error = new RequestTimeoutError(path, timeoutMs);
+          resolve(err(error));
+          controller.abort(error);
+        }, timeoutMs);
+      }
+      if (callerSignal) {
+        onCallerAbort = (): void => {
+          const error = new RequestCancelledError(path);
+          resolve(err(error));
+          controller.abort(error);
+        };
+        callerSignal.addEventListener('abort', onCallerAbort, { once: true });
+      }
+    });
+
+    try {
+      return await Promise.race([run(controller.signal), deadline]);
+    } finally {
+      if (timer) clearTimeout(timer);
+      if (onCallerAbort) callerSignal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+
   // Helper method for publish with options (used by LifecycleContext)
   async publish_with_options(
     topic: string,
@@ -694,61 +2045,345 @@ export class Node {
       if (!topicPathResult.ok) {
         return err(`Invalid topic path: ${topicPathResult.error}`);
       }
-      const topicPath = topicPathResult.value;
+      return await this.publishEvent(topicPathResult.value, data, options);
+    } catch (error) {
+      return err(error instanceof Error ? error.message : String(error));
+    }
+  }
 
-      const subs = this.registry.getSubscribers(topicPath);
-      const payload = data || AnyValue.null();
-      const service = topicPath.servicePath();
-      const eventPath = topicPath.actionPath();
-      const event = this.getLastPathSegment(eventPath);
-      const message: EventMessage = {
-        service,
-        event,
-        payload,
-        timestampMs: Date.now(),
-      };
+  // Publish without the running check, for events the node emits while starting or stopping
+  private async publishEvent(
+    topicPath: TopicPath,
+    data?: AnyValue,
+    options?: PublishOptions
+  ): Promise<Result<void, string>> {
+    this.metrics.recordEvent(topicPath.actionPath());
+    const payload = data || AnyValue.null();
+    const service = topicPath.servicePath();
+    const eventPath = topicPath.actionPath();
+    const event = this.getLastPathSegment(eventPath);
+    const message: EventMessage = {
+      service,
+      event,
+      payload,
+      timestampMs: Date.now(),
+      deliveryId: uuidv4(),
+    };
 
-      // Always deliver locally first
-      await Promise.allSettled(
-        subs.map(s => {
-          const eventContext = new EventContextImpl(
-            topicPath,
-            this,
-            this.logger?.withEventPath?.(`${topicPath.servicePath()}/${message.event}`) ||
-              this.logger
-          );
-          return s.subscriber(eventContext, message.payload);
-        })
+    if (options?.guaranteed_delivery) {
+      // The outbox persists the event and retries until every subscriber acknowledges it
+      const enqueueResult = await this.enqueueGuaranteedEvent(topicPath, message);
+      if (!enqueueResult.ok) return enqueueResult;
+    } else {
+      // Deliver to local subscribers and forward to subscribed peers
+      await this.deliverEvent(topicPath, message, true);
+    }
+
+    // Handle retained events if requested (retain_for implies retain)
+    const retainForMs = options?.retain_for?.as_millis();
+    if (options?.retain || retainForMs !== undefined) {
+      await this.retainEvent(topicPath, message, retainForMs);
+    }
+
+    return ok(undefined);
+  }
+
+  // Retained $registry/services/{service_path}/state_changed event for every state transition
+  private publishServiceStateChange(change: ServiceStateChange): void {
+    const topicPath = TopicPath.new(
+      `$registry/services/${change.servicePath}/state_changed`,
+      this.networkId
+    );
+    const payload = this.toPayloadAnyValue({
+      service_path: change.servicePath,
+      old_state: change.oldState,
+      new_state: change.newState,
+      timestamp_ms: change.timestampMs,
+      error: change.error ?? null,
+    });
+    if (!topicPath.ok || !payload.ok) {
+      this.logger?.warn?.(`Cannot publish state change of ${change.servicePath}`);
+      return;
+    }
+
+    this.serviceStateEvents = this.serviceStateEvents.then(async () => {
+      try {
+        await this.publishEvent(topicPath.value, payload.value, { retain: true });
+      } catch (error) {
+        this.logger?.warn?.(`Failed to publish state change of ${change.servicePath}: ${error}`);
+      }
+    });
+  }
+
+  // Retained $registry/services/{service_path}/circuit_changed event for every breaker transition
+  private publishCircuitChange(change: CircuitChange): void {
+    this.logger?.info?.(
+      `Circuit for ${change.servicePath} on peer ${change.peerId} is ${change.newState}: ${change.reason}`
+    );
+    const topicPath = TopicPath.new(
+      `$registry/services/${change.servicePath}/circuit_changed`,
+      this.networkId
+    );
+    const payload = this.toPayloadAnyValue({
+      peer_id: change.peerId,
+      service_path: change.servicePath,
+      old_state: change.oldState,
+      new_state: change.newState,
+      timestamp_ms: change.timestampMs,
+      reason: change.reason,
+    });
+    if (!topicPath.ok || !payload.ok) {
+      this.logger?.warn?.(`Cannot publish circuit change of ${change.servicePath}`);
+      return;
+    }
+
+    this.serviceStateEvents = this.serviceStateEvents.then(async () => {
+      try {
+        await this.publishEvent(topicPath.value, payload.value, { retain: true });
+      } catch (error) {
+        this.logger?.warn?.(`Failed to publish circuit change of ${change.servicePath}: ${error}`);
+      }
+    });
+  }
+
+  // Deliver an event to every subscription matching its topic, wildcards included.
+  // Remote subscriptions forward the event once per peer, and only for locally published events.
+  // Subscribers are keyed (local:<subscription id> or peer:<peer id>); keys in `acked` are
+  // skipped and the result reports which subscribers acknowledged the first attempt. Failed
+  // local deliveries are retried in the background and become dead letters, unless the
+  // outbox redelivers them (retryFailures false).
+  private async deliverEvent(
+    topicPath: TopicPath,
+    message: EventMessage,
+    forwardToPeers: boolean,
+    acked: ReadonlySet<string> = new Set(),
+    retryFailures = true
+  ): Promise<OutboxDeliveryResult> {
+    const deliveryId = message.deliveryId ?? uuidv4();
+    const targets = new Map<string, SubscriberMatch>();
+    for (const s of this.registry.findSubscribers(topicPath)) {
+      let key = `local:${s.id}`;
+      if (s.kind === 'Remote') {
+        const peerId = this.remoteSubscriptions.get(s.id)?.peerId;
+        if (!forwardToPeers || !peerId) continue;
+        key = `peer:${peerId}`;
+      }
+      if (!acked.has(key) && !targets.has(key)) targets.set(key, s);
+    }
+
+    const outcomes = await Promise.all(
+      Array.from(targets, async ([key, s]) => ({
+        key,
+        ok: await this.deliverToSubscriber(topicPath, message, deliveryId, s, retryFailures),
+      }))
+    );
+
+    return {
+      acked: outcomes.filter(o => o.ok).map(o => o.key),
+      pending: outcomes.filter(o => !o.ok).map(o => o.key),
+    };
+  }
+
+  // Deliver an event to one subscription. A failed local delivery is retried in the
+  // background and then dead-lettered when retryFailures is set.
+  private async deliverToSubscriber(
+    topicPath: TopicPath,
+    message: EventMessage,
+    deliveryId: string,
+    subscription: SubscriberMatch,
+    retryFailures: boolean
+  ): Promise<boolean> {
+    const eventContext = new EventContextImpl(
+      topicPath,
+      this,
+      this.logger?.withEventPath?.(`${topicPath.servicePath()}/${message.event}`) || this.logger,
+      subscription.params,
+      deliveryId,
+      message.timestampMs
+    );
+    const deliver = async (): Promise<Result<void, string>> => {
+      try {
+        return await subscription.subscriber(eventContext, message.payload);
+      } catch (error) {
+        this.logger?.warn?.(`Subscriber ${subscription.id} failed for ${topicPath}: ${error}`);
+        return err(errorMessage(error));
+      }
+    };
+    const result = await deliver();
+    if (!result.ok && subscription.kind === 'Local' && retryFailures) {
+      const signal = this.eventRetries.signal;
+      this.queueEventRetry(subscription.id, () =>
+        this.retryDelivery(topicPath, message, deliveryId, subscription, result, deliver, signal)
       );
+    } else if (!result.ok) {
+      this.metrics.recordSubscriberFailure(topicPath.actionPath());
+    }
+    return result.ok;
+  }
 
-      // Handle retained events if requested
-      if (options?.retain) {
-        const key = `${this.networkId}:${topicPath.servicePath()}/${topicPath.actionPath()}`;
-        this.logger?.debug?.(
-          `Storing retained event for key: ${key}, service: ${service}, event: ${event}`
-        );
-        this.logger?.debug?.(
-          `topicPath.servicePath(): ${topicPath.servicePath()}, topicPath.actionPath(): ${topicPath.actionPath()}`
-        );
-        const list = this.retainedEvents.get(key) ?? [];
-        list.push({ ts: message.timestampMs || Date.now(), event, payload });
-        if (list.length > this.maxRetainedPerTopic) {
-          list.splice(0, list.length - this.maxRetainedPerTopic);
-        }
-        this.retainedEvents.set(key, list);
-        this.retainedIndex.setValue(topicPath, key);
-        this.retainedKeyToTopic.set(key, topicPath);
-        this.logger?.debug?.(`Retained events for key ${key}: ${list.length} events`);
+  // Run retry after the retries already queued for the subscription, so a failing
+  // subscriber is retried one event at a time without holding up publishers
+  private queueEventRetry(subscriptionId: string, retry: () => Promise<void>): void {
+    const queued = (this.eventRetryQueues.get(subscriptionId) ?? Promise.resolve())
+      .then(retry)
+      .catch(error => {
+        this.logger?.warn?.(`Retrying delivery to subscription ${subscriptionId} failed: ${error}`);
+      });
+    this.eventRetryQueues.set(subscriptionId, queued);
+    void queued.then(() => {
+      if (this.eventRetryQueues.get(subscriptionId) === queued) {
+        this.eventRetryQueues.delete(subscriptionId);
       }
+    });
+  }
 
-      // REMOVED: Remote forwarding - not in Rust API (only local events)
+  // Retry a failed local delivery under its subscription's policy; a delivery that still
+  // fails becomes a dead letter
+  private async retryDelivery(
+    topicPath: TopicPath,
+    message: EventMessage,
+    deliveryId: string,
+    subscription: SubscriberMatch,
+    firstAttempt: Result<void, string>,
+    deliver: () => Promise<Result<void, string>>,
+    signal: AbortSignal
+  ): Promise<void> {
+    let attempts = 1;
+    const result = await withRetries(
+      subscription.retry ?? DEFAULT_RETRY_POLICY,
+      signal,
+      async (attemptNumber): Promise<Result<void, string>> => {
+        if (attemptNumber === 1) return firstAttempt;
+        attempts = attemptNumber;
+        return deliver();
+      },
+      () => true
+    );
+    if (result.ok) return;
+    this.metrics.recordSubscriberFailure(topicPath.actionPath());
+    await this.captureDeadLetter(topicPath, message, deliveryId, subscription.id, {
+      error: errorMessage(result.error),
+      attempts,
+    });
+  }
 
-      return ok(undefined);
+  // Keep a failed delivery for $deadletter/replay and publish it on $deadletter/<topic>
+  private async captureDeadLetter(
+    topicPath: TopicPath,
+    message: EventMessage,
+    deliveryId: string,
+    subscriptionId: string,
+    failure: { error: string; attempts: number }
+  ): Promise<void> {
+    if (this.config.getDeadLetterConfig().enabled === false) return;
+    // Failures of dead letter subscribers are not captured again
+    if (topicPath.servicePath() === DEAD_LETTER_SERVICE_PATH) return;
+
+    const letter: DeadLetter = {
+      id: uuidv4(),
+      topic: topicPath.actionPath(),
+      subscriptionId,
+      error: failure.error,
+      payload: message.payload,
+      deliveryId,
+      attempts: failure.attempts,
+      failedAtMs: Date.now(),
+    };
+    this.deadLetters.add(letter);
+    this.logger?.warn?.(
+      `Dead letter ${letter.id}: subscription ${subscriptionId} failed for ${topicPath}: ${failure.error}`
+    );
+
+    const deadLetterTopic = TopicPath.new(
+      `${DEAD_LETTER_SERVICE_PATH}/${letter.topic}`,
+      this.networkId
+    );
+    const value = this.toPayloadAnyValue(letterValue(letter));
+    if (!deadLetterTopic.ok || !value.ok) {
+      this.logger?.warn?.(`Failed to publish dead letter ${letter.id}`);
+      return;
+    }
+    const published = await this.publishEvent(deadLetterTopic.value, value.value);
+    if (!published.ok) {
+      this.logger?.warn?.(`Failed to publish dead letter ${letter.id}: ${published.error}`);
+    }
+  }
+
+  // Redeliver a dead letter to its subscription only (used by $deadletter/replay)
+  private async replayDeadLetter(letter: DeadLetter): Promise<Result<void, string>> {
+    const subscription = this.registry.findSubscription(letter.subscriptionId);
+    if (!subscription) return err(`Subscription not found: ${letter.subscriptionId}`);
+    const topicPath = TopicPath.new(letter.topic, this.networkId);
+    if (!topicPath.ok) return err(`Invalid topic path: ${topicPath.error}`);
+
+    // Bind the subscription's template params against the dead letter's topic
+    const matcher = new PathTrie<boolean>();
+    matcher.setValue(subscription.topic, true);
+    const eventContext = new EventContextImpl(
+      topicPath.value,
+      this,
+      this.logger?.withEventPath?.(letter.topic) || this.logger,
+      matcher.findMatches(topicPath.value)[0]?.params,
+      letter.deliveryId
+    );
+    try {
+      return await subscription.entry.subscriber(eventContext, letter.payload);
     } catch (error) {
-      return err(error instanceof Error ? error.message : String(error));
+      return err(errorMessage(error));
     }
   }
 
+  private async enqueueGuaranteedEvent(
+    topicPath: TopicPath,
+    message: EventMessage
+  ): Promise<Result<void, string>> {
+    if (!this.outbox) {
+      return err('Guaranteed delivery requires an outbox (NodeConfig.withOutbox)');
+    }
+    const bytes = (message.payload ?? AnyValue.null()).serialize(this.createSerializationContext());
+    if (!bytes.ok) {
+      return err(`Failed to serialize event: ${bytes.error.message}`);
+    }
+    await this.outbox.enqueue({
+      deliveryId: message.deliveryId ?? uuidv4(),
+      topic: topicPath.asString(),
+      payload: bytes.value,
+      createdAtMs: message.timestampMs ?? Date.now(),
+      attempts: 0,
+      ackedBy: [],
+    });
+    return ok(undefined);
+  }
+
+  // Outbox callback: redeliver a persisted event to the subscribers that have not acked it
+  private async deliverOutboxEntry(entry: OutboxEntry): Promise<OutboxDeliveryResult> {
+    const topicPathResult = TopicPath.new(entry.topic, this.networkId);
+    if (!topicPathResult.ok) {
+      this.logger?.error?.(`Dropping outbox entry with invalid topic ${entry.topic}`);
+      return { acked: [], pending: [] };
+    }
+    const topicPath = topicPathResult.value;
+
+    const payload = AnyValue.deserialize(entry.payload, this.keysWrapper);
+    if (!payload.ok) {
+      throw new Error(`Failed to deserialize outbox payload: ${payload.error.message}`);
+    }
+
+    return this.deliverEvent(
+      topicPath,
+      {
+        service: topicPath.servicePath(),
+        event: this.getLastPathSegment(topicPath.actionPath()),
+        payload: payload.value,
+        timestampMs: entry.createdAtMs,
+        deliveryId: entry.deliveryId,
+      },
+      true,
+      new Set(entry.ackedBy),
+      false
+    );
+  }
+
   /**
    * Rust-compatible publish method - matches Rust API exactly
    */
@@ -762,7 +2397,7 @@ export class Node {
       }
       const topicPath = topicPathResult.value;
 
-      const subs = this.registry.getSubscribers(topicPath);
+      this.metrics.recordEvent(topicPath.actionPath());
       const payload = data || AnyValue.null();
 
       const service = topicPath.servicePath();
@@ -775,20 +2410,8 @@ export class Node {
         timestampMs: Date.now(),
       };
 
-      // Always deliver locally first
-      await Promise.allSettled(
-        subs.map(s => {
-          const eventContext = new EventContextImpl(
-            topicPath,
-            this,
-            this.logger?.withEventPath?.(`${topicPath.servicePath()}/${message.event}`) ||
-              this.logger
-          );
-          return s.subscriber(eventContext, message.payload);
-        })
-      );
-
-      // REMOVED: Remote forwarding - not in Rust API (only local events)
+      // Deliver to local subscribers and forward to subscribed peers
+      await this.deliverEvent(topicPath, message, true);
 
       return ok(undefined);
     } catch (error) {
@@ -807,42 +2430,102 @@ export class Node {
   ): Promise<Result<string, string>> {
     try {
       if (!this.running) return err('Node not started');
+      return await this.addLocalSubscription(topic, undefined, callback, options);
+    } catch (error) {
+      return err(error instanceof Error ? error.message : String(error));
+    }
+  }
 
-      const topicPathResult = TopicPath.new(topic, this.networkId);
-      if (!topicPathResult.ok) {
-        return err(`Invalid topic path: ${topicPathResult.error}`);
-      }
-      const topicPath = topicPathResult.value;
+  /**
+   * Subscribe on behalf of a local service (used by NodeLifecycleContextImpl). Works while
+   * the node starts so services can subscribe in init/start; removed when the service stops.
+   */
+  async subscribeForService(
+    serviceTopic: TopicPath,
+    topic: string,
+    callback: EventSubscriber,
+    options?: EventRegistrationOptions
+  ): Promise<Result<string, string>> {
+    try {
+      return await this.addLocalSubscription(topic, serviceTopic, callback, options);
+    } catch (error) {
+      return err(error instanceof Error ? error.message : String(error));
+    }
+  }
 
-      const metadata: SubscriptionMetadata = {
-        path: topic,
-      };
+  // Remove a local action handler (used by NodeLifecycleContextImpl.unregisterAction)
+  async unregisterAction(actionTopic: TopicPath): Promise<Result<void, string>> {
+    if (!this.registry.removeLocalActionHandler(actionTopic)) {
+      return err(`Action not registered: ${actionTopic.actionPath()}`);
+    }
+    // Peers see the service's actions in the announced NodeInfo
+    if (this.running && !this.isInternalService(actionTopic.servicePath())) {
+      await this.announceLocalNodeInfo();
+    }
+    return ok(undefined);
+  }
 
-      const subscriptionId = this.registry.subscribe(
-        topicPath,
-        topicPath,
-        callback,
-        metadata,
-        'Local'
-      );
+  // Remove a subscription the service made through its lifecycle context
+  async unsubscribeForService(
+    serviceTopic: TopicPath,
+    subscriptionId: string
+  ): Promise<Result<void, string>> {
+    if (!this.registry.getServiceSubscriptionIds(serviceTopic).includes(subscriptionId)) {
+      return err(`Subscription not found: ${subscriptionId}`);
+    }
+    return this.unsubscribe(subscriptionId);
+  }
 
-      // Deliver past events if requested
-      if (options?.includePast) {
-        const pastEvents = this.getRetainedEvents(topicPath);
-        for (const event of pastEvents) {
-          const eventContext = new EventContextImpl(
-            topicPath,
-            this,
-            this.logger?.withEventPath?.(`${event.service}/${event.event}`) || this.logger
-          );
-          callback(eventContext, event.payload);
-        }
-      }
+  private async addLocalSubscription(
+    topic: string,
+    ownerServiceTopic: TopicPath | undefined,
+    callback: EventSubscriber,
+    options?: EventRegistrationOptions
+  ): Promise<Result<string, string>> {
+    const topicPathResult = TopicPath.new(topic, this.networkId);
+    if (!topicPathResult.ok) {
+      return err(`Invalid topic path: ${topicPathResult.error}`);
+    }
+    const topicPath = topicPathResult.value;
 
-      return ok(subscriptionId);
-    } catch (error) {
-      return err(error instanceof Error ? error.message : String(error));
+    const metadata: SubscriptionMetadata = {
+      path: topic,
+    };
+
+    const subscriptionId = this.registry.subscribe(
+      topicPath,
+      ownerServiceTopic ?? topicPath,
+      callback,
+      metadata,
+      'Local',
+      options?.retry
+    );
+    const subscription = this.registry.findSubscription(subscriptionId)!;
+
+    // Advertise the subscription so peers forward matching events
+    if (this.running && !this.isInternalService(topicPath.servicePath())) {
+      await this.announceLocalNodeInfo();
+    }
+
+    // Deliver past events if requested
+    if (options?.includePast) {
+      const pastEvents = this.getRetainedEvents(topicPath);
+      // Bind the subscription's template params against each retained topic
+      const matcher = new PathTrie<boolean>();
+      matcher.setValue(topicPath, true);
+      for (const event of pastEvents) {
+        const params = matcher.findMatches(event.topicPath)[0]?.params ?? new Map();
+        await this.deliverToSubscriber(
+          event.topicPath,
+          event,
+          event.deliveryId ?? uuidv4(),
+          { ...subscription.entry, params },
+          true
+        );
+      }
     }
+
+    return ok(subscriptionId);
   }
 
   /**
@@ -854,6 +2537,7 @@ export class Node {
       if (!success) {
         return err(`Subscription not found: ${subscriptionId}`);
       }
+      await this.announceLocalNodeInfo();
       return ok(undefined);
     } catch (error) {
       return err(error instanceof Error ? error.message : String(error));
@@ -875,32 +2559,35 @@ export class Node {
     return new Promise(resolve => {
       let resolved = false;
       let timeoutId: NodeJS.Timeout | undefined;
+      let subscriptionId: string | undefined;
 
-      const cleanup = (subscriptionId?: string) => {
+      const cleanup = () => {
         if (subscriptionId) {
-          this.registry.unsubscribe(subscriptionId);
+          // Through unsubscribe() so peers stop forwarding the topic
+          void this.unsubscribe(subscriptionId);
+          subscriptionId = undefined;
         }
         if (timeoutId) {
           clearTimeout(timeoutId);
         }
       };
 
+      // Resolve once, from the first event or the timeout
+      const finish = (result: Result<AnyValue | undefined, string>): void => {
+        if (resolved) return;
+        resolved = true;
+        cleanup();
+        resolve(result);
+      };
+
       const callback: EventSubscriber = async (context: EventContext, data?: AnyValue) => {
-        if (!resolved) {
-          resolved = true;
-          resolve(ok(data));
-        }
+        finish(ok(data));
         return ok(undefined);
       };
 
       // Set up timeout
       if (options?.timeout) {
-        timeoutId = setTimeout(() => {
-          if (!resolved) {
-            resolved = true;
-            resolve(ok(undefined)); // Timeout with no event
-          }
-        }, options.timeout);
+        timeoutId = setTimeout(() => finish(ok(undefined)), options.timeout);
       }
 
       // Subscribe (this is the only await in the Promise constructor)
@@ -909,20 +2596,90 @@ export class Node {
           includePast: options?.includePast,
         });
         if (!isOk(subscribeResult)) {
-          resolve(err(unwrapErr(subscribeResult)));
+          finish(err(unwrapErr(subscribeResult)));
           return;
         }
 
-        const subscriptionId = unwrap(subscribeResult);
+        subscriptionId = unwrap(subscribeResult) as string;
+        // A retained event or the timeout may have resolved before subscribe returned
+        if (resolved) cleanup();
+      })();
+    });
+  }
 
-        // Clean up subscription after timeout or event
-        setImmediate(() => {
-          if (resolved) {
-            cleanup(subscriptionId as string);
-          }
+  /**
+   * Iterate the events published on a topic (wildcards and templates allowed). The
+   * subscription starts when events() is called, so nothing published before the first
+   * next() is missed. It is removed when the loop ends, options.signal aborts or the
+   * node stops; these end the iteration without an error. Events wait in a buffer while
+   * the loop body runs (see EventStreamOptions for overflow).
+   */
+  events(topic: string, options?: EventStreamOptions): AsyncIterableIterator<StreamedEvent> {
+    if (!this.running) throw new Error('Node not started');
+    const topicPathResult = TopicPath.new(topic, this.networkId);
+    if (!topicPathResult.ok) throw new Error(`Invalid topic path: ${topicPathResult.error}`);
+
+    const buffer = new EventBuffer<StreamedEvent>(
+      options?.bufferSize ?? DEFAULT_EVENT_BUFFER_SIZE,
+      options?.overflow
+    );
+    // Retained events are buffered before subscribing so they come before new ones.
+    // Pushes are not awaited: with 'block', the ones over the capacity wait in order for
+    // the consumer, which cannot read before events() returns.
+    if (options?.includePast) {
+      for (const event of this.getRetainedEvents(topicPathResult.value)) {
+        void buffer.push({
+          topicPath: event.topicPath,
+          payload: event.payload,
+          timestampMs: event.timestampMs ?? Date.now(),
         });
-      })();
+      }
+    }
+    const subscribed = this.subscribe(topic, async (context, payload) => {
+      await buffer.push({
+        topicPath: context.topicPath,
+        payload,
+        timestampMs: context.timestampMs,
+      });
+      return ok(undefined);
     });
+
+    // Closing the buffer also releases deliveries blocked on a full buffer
+    let ended = false;
+    const end = async (): Promise<void> => {
+      if (ended) return;
+      ended = true;
+      options?.signal?.removeEventListener('abort', onAbort);
+      this.eventStreams.delete(end);
+      buffer.close();
+      if (buffer.dropped > 0) {
+        this.logger?.debug?.(`Event stream on ${topic} dropped ${buffer.dropped} events`);
+      }
+      const subscription = await subscribed;
+      if (subscription.ok) await this.unsubscribe(subscription.value);
+    };
+    const onAbort = (): void => void end();
+    this.eventStreams.add(end);
+    if (options?.signal?.aborted) onAbort();
+    options?.signal?.addEventListener('abort', onAbort, { once: true });
+
+    return {
+      next: async (): Promise<IteratorResult<StreamedEvent>> => {
+        const subscription = await subscribed;
+        if (!subscription.ok) {
+          await end();
+          throw toError(subscription.error);
+        }
+        return buffer.next();
+      },
+      return: async (): Promise<IteratorResult<StreamedEvent>> => {
+        await end();
+        return { value: undefined, done: true };
+      },
+      [Symbol.asyncIterator](): AsyncIterableIterator<StreamedEvent> {
+        return this;
+      },
+    };
   }
 
   // Extract path parameters from action template using TopicPath
@@ -956,6 +2713,13 @@ export class Node {
     return pathParams;
   }
 
+  // Wrap a request payload in an AnyValue (AnyValue payloads are passed through unchanged)
+  private toPayloadAnyValue<P>(payload?: P): Result<AnyValue, string> {
+    if (payload === undefined) return ok(AnyValue.null());
+    if (payload instanceof AnyValue) return ok(payload);
+    return toAnyValue(payload);
+  }
+
   // Helper method to get the last segment of a path (avoids string manipulation)
   private getLastPathSegment(path: string): string {
     if (!path || path === '') return '';
@@ -0,0 +1,197 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { encode, decode } from 'cbor-x';
+import type { Logger } from 'runar-ts-common';
+
+// Outbox settings for guaranteed-delivery events (see NodeConfig.withOutbox)
+export interface OutboxConfig {
+  // Directory holding one file per undelivered event
+  directory: string;
+  // Delay before the first retry; doubled on every failed attempt
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Give up after this many attempts (retries forever when unset)
+  maxAttempts?: number;
+}
+
+/**
+ * Persisted guaranteed-delivery event. The payload is the serialized AnyValue,
+ * encrypted with the node's label resolver.
+ */
+export interface OutboxEntry {
+  deliveryId: string;
+  topic: string;
+  payload: Uint8Array;
+  createdAtMs: number;
+  attempts: number;
+  // Subscriber keys that already acknowledged the event
+  ackedBy: string[];
+}
+
+// Outcome of one delivery attempt, as subscriber keys
+export interface OutboxDeliveryResult {
+  acked: string[];
+  pending: string[];
+}
+
+export type OutboxDeliver = (entry: OutboxEntry) => Promise<OutboxDeliveryResult>;
+
+const DEFAULT_INITIAL_BACKOFF_MS = 500;
+const DEFAULT_MAX_BACKOFF_MS = 60_000;
+
+/**
+ * File-backed outbox giving at-least-once delivery. Entries are written before the
+ * first attempt and removed once every matching subscriber has acknowledged them, so
+ * events still pending when the node stops are retried after the next start.
+ */
+export class Outbox {
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly inFlight = new Set<string>();
+  // Entries loaded by open() that resume() has not scheduled yet
+  private resumable: OutboxEntry[] = [];
+  private running = false;
+
+  constructor(
+    private readonly config: OutboxConfig,
+    private readonly deliver: OutboxDeliver,
+    private readonly logger?: Logger
+  ) {}
+
+  /**
+   * Load persisted entries and schedule their delivery
+   */
+  async start(): Promise<void> {
+    await this.open();
+    this.resume();
+  }
+
+  /**
+   * Accept new entries and load the persisted ones without delivering them, so
+   * events can be enqueued before their subscribers exist; resume() delivers them
+   */
+  async open(): Promise<void> {
+    if (this.running) return;
+    await fs.mkdir(this.config.directory, { recursive: true });
+    this.resumable = await this.load();
+    this.running = true;
+  }
+
+  // Schedule delivery of the persisted entries loaded by open()
+  resume(): void {
+    const entries = this.resumable.splice(0);
+    if (entries.length > 0) {
+      this.logger?.info?.(`Outbox resuming ${entries.length} pending deliveries`);
+    }
+    for (const entry of entries) {
+      this.schedule(entry, 0);
+    }
+  }
+
+  // Stop retrying; pending entries stay on disk
+  stop(): void {
+    this.running = false;
+    this.resumable = [];
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * Persist a new entry and make the first delivery attempt
+   */
+  async enqueue(entry: OutboxEntry): Promise<void> {
+    if (!this.running) {
+      throw new Error('Outbox is not running');
+    }
+    await this.save(entry);
+    await this.attempt(entry);
+  }
+
+  // Number of entries waiting for acknowledgements
+  pendingCount(): number {
+    return this.timers.size + this.inFlight.size;
+  }
+
+  private schedule(entry: OutboxEntry, delayMs: number): void {
+    if (!this.running) return;
+    const timer = setTimeout(() => {
+      this.timers.delete(entry.deliveryId);
+      void this.attempt(entry);
+    }, delayMs);
+    this.timers.set(entry.deliveryId, timer);
+  }
+
+  private async attempt(entry: OutboxEntry): Promise<void> {
+    if (this.inFlight.has(entry.deliveryId)) return;
+    this.inFlight.add(entry.deliveryId);
+    try {
+      entry.attempts++;
+      let result: OutboxDeliveryResult;
+      try {
+        result = await this.deliver(entry);
+      } catch (error) {
+        this.logger?.warn?.(`Outbox delivery ${entry.deliveryId} failed: ${error}`);
+        result = { acked: [], pending: ['*'] };
+      }
+      entry.ackedBy = Array.from(new Set([...entry.ackedBy, ...result.acked]));
+
+      if (result.pending.length === 0) {
+        await this.remove(entry.deliveryId);
+        this.logger?.debug?.(`Outbox delivery ${entry.deliveryId} acknowledged`);
+        return;
+      }
+
+      const maxAttempts = this.config.maxAttempts;
+      if (maxAttempts !== undefined && entry.attempts >= maxAttempts) {
+        await this.remove(entry.deliveryId);
+        this.logger?.error?.(
+          `Outbox delivery ${entry.deliveryId} on ${entry.topic} abandoned after ${entry.attempts} attempts`
+        );
+        return;
+      }
+
+      await this.save(entry);
+      this.schedule(entry, this.backoffMs(entry.attempts));
+    } catch (error) {
+      // The entry on disk is left as it was; the next attempt updates it again
+      this.logger?.error?.(`Outbox failed to update entry ${entry.deliveryId}: ${error}`);
+      this.schedule(entry, this.backoffMs(entry.attempts));
+    } finally {
+      this.inFlight.delete(entry.deliveryId);
+    }
+  }
+
+  private backoffMs(attempts: number): number {
+    const initial = this.config.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+    const max = this.config.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+    return Math.min(initial * 2 ** Math.max(0, attempts - 1), max);
+  }
+
+  private async load(): Promise<OutboxEntry[]> {
+    const entries: OutboxEntry[] = [];
+    for (const file of await fs.readdir(this.config.directory)) {
+      if (!file.endsWith('.cbor')) continue;
+      try {
+        const entry = decode(await fs.readFile(path.join(this.config.directory, file)));
+        entries.push({ ...entry, payload: new Uint8Array(entry.payload) } as OutboxEntry);
+      } catch (error) {
+        this.logger?.warn?.(`Skipping unreadable outbox entry ${file}: ${error}`);
+      }
+    }
+    return entries.sort((a, b) => a.createdAtMs - b.createdAtMs);
+  }
+
+  // Write to a temp file and rename so a crash never leaves a partial entry
+  private async save(entry: OutboxEntry): Promise<void> {
+    const file = this.entryPath(entry.deliveryId);
+    await fs.writeFile(`${file}.tmp`, encode(entry));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  private async remove(deliveryId: string): Promise<void> {
+    await fs.rm(this.entryPath(deliveryId), { force: true });
+  }
+
+  private entryPath(deliveryId: string): string {
+    return path.join(this.config.directory, `${deliveryId}.cbor`);
+  }
+}
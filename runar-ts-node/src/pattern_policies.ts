@@ -0,0 +1,37 @@
+import { PathTrie, TopicPath } from 'runar-ts-common';
+
+// Policy registered for a topic pattern
+export interface PatternPolicy<T> {
+  pattern: string;
+  policy: T;
+}
+
+/**
+ * Policies keyed by topic pattern (wildcards and templates allowed) and matched
+ * through a PathTrie. When several patterns match a topic, the one registered
+ * first wins.
+ */
+export class PatternPolicies<T> {
+  private readonly trie = new PathTrie<number>();
+  private readonly entries: PatternPolicy<T>[] = [];
+
+  // kind names the policy in the error thrown for an invalid pattern
+  constructor(networkId: string, entries: PatternPolicy<T>[], kind: string) {
+    for (const entry of entries) {
+      const topic = TopicPath.new(entry.pattern, networkId);
+      if (!topic.ok) {
+        throw new Error(`Invalid ${kind} pattern ${entry.pattern}: ${topic.error}`);
+      }
+      this.trie.setValues(topic.value, [
+        ...this.trie.getExactValues(topic.value),
+        this.entries.length,
+      ]);
+      this.entries.push(entry);
+    }
+  }
+
+  match(topic: TopicPath): PatternPolicy<T> | undefined {
+    const indexes = this.trie.findMatches(topic).map(m => m.content);
+    return indexes.length > 0 ? this.entries[Math.min(...indexes)] : undefined;
+  }
+}
@@ -0,0 +1,105 @@
+import { Result, err, ok } from 'runar-ts-common';
+import { ServicePausedError } from './errors';
+
+// What happens to requests for a paused service (see NodeConfig.withPausePolicy)
+export interface PausePolicy {
+  whilePaused: 'queue' | 'reject';
+  // queue only: requests beyond this many waiting ones are rejected
+  maxQueuedRequests?: number;
+}
+
+export const DEFAULT_MAX_QUEUED_REQUESTS = 100;
+
+interface QueuedRequest {
+  resolve: (result: Result<void, string>) => void;
+  signal: AbortSignal;
+  onAbort: () => void;
+}
+
+/**
+ * Holds back requests for paused services. Depending on the service's pause policy,
+ * a request is rejected with a ServicePausedError or waits in a bounded queue until
+ * the service resumes, is stopped, or the request's signal aborts.
+ */
+export class PauseGate {
+  private readonly queues = new Map<string, QueuedRequest[]>();
+
+  constructor(
+    private readonly defaultPolicy: PausePolicy,
+    private readonly policies: Map<string, PausePolicy>
+  ) {}
+
+  policyFor(servicePath: string): PausePolicy {
+    return this.policies.get(servicePath) ?? this.defaultPolicy;
+  }
+
+  isPaused(servicePath: string): boolean {
+    return this.queues.has(servicePath);
+  }
+
+  pause(servicePath: string): void {
+    if (!this.queues.has(servicePath)) this.queues.set(servicePath, []);
+  }
+
+  // Let queued requests through, in arrival order
+  resume(servicePath: string): void {
+    this.release(servicePath, ok(undefined));
+  }
+
+  // Fail queued requests, e.g. when the paused service is stopped
+  close(servicePath: string, reason: string): void {
+    this.release(servicePath, err(reason));
+  }
+
+  // Resolves once a request for the service may run
+  admit(servicePath: string, signal: AbortSignal): Promise<Result<void, string>> {
+    const queue = this.queues.get(servicePath);
+    if (!queue) return Promise.resolve(ok(undefined));
+
+    const policy = this.policyFor(servicePath);
+    if (policy.whilePaused === 'reject') {
+      return Promise.resolve(err(new ServicePausedError(servicePath)));
+    }
+    const maxQueued = policy.maxQueuedRequests ?? DEFAULT_MAX_QUEUED_REQUESTS;
+    if (queue.length >= maxQueued) {
+      return Promise.resolve(
+        err(new ServicePausedError(servicePath, `request queue is full (${maxQueued})`))
+      );
+    }
+    if (signal.aborted) {
+      return Promise.resolve(err(abortReason(signal)));
+    }
+
+    return new Promise(resolve => {
+      const request: QueuedRequest = {
+        resolve,
+        signal,
+        onAbort: () => {
+          const current = this.queues.get(servicePath);
+          const index = current?.indexOf(request) ?? -1;
+          if (index >= 0) current!.splice(index, 1);
+          resolve(err(abortReason(signal)));
+        },
+      };
+      signal.addEventListener('abort', request.onAbort, { once: true });
+      queue.push(request);
+    });
+  }
+
+  queuedCount(servicePath: string): number {
+    return this.queues.get(servicePath)?.length ?? 0;
+  }
+
+  private release(servicePath: string, result: Result<void, string>): void {
+    const queue = this.queues.get(servicePath);
+    this.queues.delete(servicePath);
+    for (const request of queue ?? []) {
+      request.signal.removeEventListener('abort', request.onAbort);
+      request.resolve(result);
+    }
+  }
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Request aborted');
+}
@@ -0,0 +1,149 @@
+import { Result, TopicPath, err, ok } from 'runar-ts-common';
+import { RateLimitExceededError } from './errors';
+import { PatternPolicies } from './pattern_policies';
+
+// Limits for the actions matching a pattern (see NodeConfig.withRateLimit)
+export interface RateLimit {
+  // Token bucket: sustained requests per second
+  ratePerSecond?: number;
+  // Token bucket size, i.e. requests allowed in a burst (defaults to ratePerSecond, at least 1)
+  burst?: number;
+  // Requests allowed to run at the same time
+  maxConcurrent?: number;
+  // Who shares a limit: all callers, each peer node, or each user profile key.
+  // Local callers count as one caller; remote callers without profile keys are keyed by peer.
+  keyBy?: 'action' | 'peer' | 'profile';
+}
+
+// Rate limit for every action matching a pattern (wildcards and templates allowed)
+export interface ActionRateLimit {
+  pattern: string;
+  limit: RateLimit;
+}
+
+// Who issued a request; both fields are unset for requests made on this node
+export interface CallerIdentity {
+  peerId?: string;
+  profilePublicKeys?: Uint8Array[];
+}
+
+// Buckets beyond this many are pruned of idle entries
+const MAX_TRACKED_BUCKETS = 10_000;
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  updatedMs: number;
+  inFlight: number;
+}
+
+/**
+ * Enforces the configured rate limits, matched against the requested topic as
+ * PatternPolicies. A request that exceeds its limit fails right away with a
+ * RateLimitExceededError; an admitted request holds a concurrency slot until its
+ * release callback runs.
+ */
+export class RateLimiter {
+  private readonly limits: PatternPolicies<RateLimit>;
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(
+    networkId: string,
+    limits: ActionRateLimit[],
+    private readonly now: () => number = Date.now
+  ) {
+    this.limits = new PatternPolicies(
+      networkId,
+      limits.map(({ pattern, limit }) => ({ pattern, policy: limit })),
+      'rate limit'
+    );
+  }
+
+  // Admit a request; on success the returned callback must be called when it completes
+  acquire(topic: TopicPath, caller: CallerIdentity = {}): Result<() => void, string> {
+    const matched = this.limits.match(topic);
+    if (!matched) return ok(() => {});
+    const { pattern, policy: limit } = matched;
+
+    const callerKey = callerKeyFor(limit, caller);
+    const key = `${pattern}|${callerKey}`;
+    const bucket = this.bucketFor(key, limit);
+
+    if (limit.maxConcurrent !== undefined && bucket.inFlight >= limit.maxConcurrent) {
+      return err(
+        new RateLimitExceededError(
+          topic.actionPath(),
+          pattern,
+          callerKey,
+          `${limit.maxConcurrent} concurrent requests`
+        )
+      );
+    }
+    if (limit.ratePerSecond !== undefined) {
+      if (bucket.tokens < 1) {
+        return err(
+          new RateLimitExceededError(
+            topic.actionPath(),
+            pattern,
+            callerKey,
+            `${limit.ratePerSecond} requests per second`
+          )
+        );
+      }
+      bucket.tokens -= 1;
+    }
+
+    bucket.inFlight++;
+    let released = false;
+    return ok(() => {
+      if (released) return;
+      released = true;
+      bucket.inFlight--;
+    });
+  }
+
+  private bucketFor(key: string, limit: RateLimit): Bucket {
+    const now = this.now();
+    const capacity = burstOf(limit);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      if (this.buckets.size >= MAX_TRACKED_BUCKETS) this.pruneIdle(now);
+      bucket = { limit, tokens: capacity, updatedMs: now, inFlight: 0 };
+      this.buckets.set(key, bucket);
+      return bucket;
+    }
+    // Refill for the time elapsed since the bucket was last used
+    if (limit.ratePerSecond !== undefined) {
+      const refill = ((now - bucket.updatedMs) / 1000) * limit.ratePerSecond;
+      bucket.tokens = Math.min(capacity, bucket.tokens + refill);
+    }
+    bucket.updatedMs = now;
+    return bucket;
+  }
+
+  // Drop buckets with nothing in flight that would have refilled completely by now
+  private pruneIdle(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.inFlight > 0) continue;
+      const rate = bucket.limit.ratePerSecond;
+      const refill = rate === undefined ? Infinity : ((now - bucket.updatedMs) / 1000) * rate;
+      if (bucket.tokens + refill >= burstOf(bucket.limit)) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+function burstOf(limit: RateLimit): number {
+  return limit.burst ?? Math.max(1, limit.ratePerSecond ?? 1);
+}
+
+function callerKeyFor(limit: RateLimit, caller: CallerIdentity): string {
+  const keyBy = limit.keyBy ?? 'action';
+  if (keyBy === 'action') return '*';
+  const profileKey = caller.profilePublicKeys?.[0];
+  if (keyBy === 'profile' && profileKey) {
+    return `profile:${Buffer.from(profileKey).toString('hex')}`;
+  }
+  return caller.peerId ? `peer:${caller.peerId}` : 'local';
+}
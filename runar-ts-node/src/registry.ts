@@ -1,13 +1,15 @@
 import { v4 as uuidv4 } from 'uuid';
 import { AnyValue } from 'runar-ts-serializer';
 import { PathTrie, TopicPath } from 'runar-ts-common';
-import { ActionHandler } from './service';
+import { ActionHandler, StreamingActionHandler } from './service';
 import { EventSubscriber } from './events';
 import { ServiceEntry, ServiceState } from './service';
 import { SubscriptionMetadata } from 'runar-ts-schemas';
+import type { RemoteService } from './remote_service';
+import type { RetryPolicy } from './retry';
 
 // Subscriber kinds for event subscriptions
-type SubscriberKind = 'Local' | 'Remote';
+export type SubscriberKind = 'Local' | 'Remote';
 
 // Full subscription entry with metadata
 type FullSubscriptionEntry = {
@@ -16,8 +18,32 @@ type FullSubscriptionEntry = {
   metadata: SubscriptionMetadata;
   serviceTopic: TopicPath;
   subscriber: EventSubscriber;
+  // Retries of failed deliveries (EventRegistrationOptions.retry)
+  retry?: RetryPolicy;
 };
 
+// Local action registered under topic: a request handler or a streaming handler
+type ActionRegistration = {
+  topic: TopicPath;
+  handler?: ActionHandler;
+  streamHandler?: StreamingActionHandler;
+};
+
+// Subscription matched by a published topic, with template params bound from the topic
+export type SubscriberMatch = FullSubscriptionEntry & { params: Map<string, string> };
+
+// A local service moving from one state to another (see ServiceRegistry.onServiceStateChange)
+export interface ServiceStateChange {
+  servicePath: string;
+  oldState: ServiceState;
+  newState: ServiceState;
+  timestampMs: number;
+  // Reason for ServiceState.Error
+  error?: string;
+}
+
+export type ServiceStateListener = (change: ServiceStateChange) => void;
+
 // Publish options for event publishing
 export interface PublishOptions {
   broadcast?: boolean;
@@ -38,15 +64,63 @@ export type Duration = {
 
 // ServiceRegistry class (extracted from index.ts)
 export class ServiceRegistry {
-  private actionHandlers = new PathTrie<ActionHandler>();
+  // Handlers are stored with the topic they were registered under (templates included)
+  private actionHandlers = new PathTrie<ActionRegistration>();
+  // Registered action topics per service key, so a service's handlers can be removed together
+  private actionTopicsByService = new Map<string, Map<string, TopicPath>>();
   private eventSubscriptions = new PathTrie<FullSubscriptionEntry[]>();
   private subscriptionIdToTopic = new Map<string, TopicPath>();
   private subscriptionIdToServiceTopic = new Map<string, TopicPath>();
   private localServices = new Map<string, ServiceEntry>();
   private localServiceStates = new Map<string, ServiceState>();
+  private remoteServices = new Map<string, RemoteService[]>();
+  private stateListeners = new Set<ServiceStateListener>();
 
   addLocalActionHandler(topic: TopicPath, handler: ActionHandler): void {
-    this.actionHandlers.setValue(topic, handler);
+    this.addActionRegistration({ topic, handler });
+  }
+
+  // Streaming actions share the action namespace; one replaces the other at the same topic
+  addLocalStreamHandler(topic: TopicPath, streamHandler: StreamingActionHandler): void {
+    this.addActionRegistration({ topic, streamHandler });
+  }
+
+  private addActionRegistration(registration: ActionRegistration): void {
+    const topic = registration.topic;
+    this.actionHandlers.setValue(topic, registration);
+    const key = this.serviceKey(topic);
+    const topics = this.actionTopicsByService.get(key) ?? new Map<string, TopicPath>();
+    topics.set(topic.asString(), topic);
+    this.actionTopicsByService.set(key, topics);
+  }
+
+  // Remove one action handler; returns false when nothing was registered at topic
+  removeLocalActionHandler(topic: TopicPath): boolean {
+    const key = this.serviceKey(topic);
+    const topics = this.actionTopicsByService.get(key);
+    if (!topics?.delete(topic.asString())) return false;
+    if (topics.size === 0) this.actionTopicsByService.delete(key);
+    this.actionHandlers.removeValues(topic);
+    return true;
+  }
+
+  // Action topics registered under the service, in registration order
+  getServiceActionTopics(serviceTopic: TopicPath): TopicPath[] {
+    return Array.from(
+      this.actionTopicsByService.get(this.serviceKey(serviceTopic))?.values() ?? []
+    );
+  }
+
+  // Remove every action handler registered under the service; returns how many were removed
+  removeServiceActionHandlers(serviceTopic: TopicPath): number {
+    const key = this.serviceKey(serviceTopic);
+    const topics = this.actionTopicsByService.get(key);
+    if (!topics) return 0;
+    for (const topic of topics.values()) {
+      this.actionHandlers.removeValues(topic);
+    }
+    this.actionTopicsByService.delete(key);
+    return topics.size;
   }
 
   getActionHandlerRegistrationPath(topic: TopicPath): string | null {
@@ -70,7 +144,20 @@ export class ServiceRegistry {
   }
 
   findLocalActionHandlers(topic: TopicPath): ActionHandler[] {
-    return this.actionHandlers.findMatches(topic).map(m => m.content);
+    return this.actionHandlers
+      .findMatches(topic)
+      .flatMap(m => (m.content.handler ? [m.content.handler] : []));
+  }
+
+  findLocalStreamHandlers(topic: TopicPath): StreamingActionHandler[] {
+    return this.actionHandlers
+      .findMatches(topic)
+      .flatMap(m => (m.content.streamHandler ? [m.content.streamHandler] : []));
+  }
+
+  // Registered topic of the local action handling topic, e.g. net:orders/{id} for net:orders/42
+  findActionRegistration(topic: TopicPath): TopicPath | undefined {
+    return this.actionHandlers.findMatches(topic)[0]?.content.topic;
   }
 
   subscribe(
@@ -78,12 +165,13 @@ export class ServiceRegistry {
     serviceTopic: TopicPath,
     subscriber: EventSubscriber,
     metadata: SubscriptionMetadata,
-    kind: SubscriberKind = 'Local'
+    kind: SubscriberKind = 'Local',
+    retry?: RetryPolicy
   ): string {
     const id = uuidv4();
-    const existingMatches = this.eventSubscriptions.findMatches(topic);
-    const existing = existingMatches.length > 0 ? existingMatches[0]!.content : [];
-    const entry: FullSubscriptionEntry = { id, kind, metadata, serviceTopic, subscriber };
+    // Exact lookup so entries of overlapping wildcard subscriptions are never copied here
+    const existing = this.eventSubscriptions.getExactValues(topic).flat();
+    const entry: FullSubscriptionEntry = { id, kind, metadata, serviceTopic, subscriber, retry };
     this.eventSubscriptions.setValue(topic, [...existing, entry]);
     this.subscriptionIdToTopic.set(id, topic);
     this.subscriptionIdToServiceTopic.set(id, serviceTopic);
@@ -93,8 +181,7 @@ export class ServiceRegistry {
   unsubscribe(subscriptionId: string): boolean {
     const topic = this.subscriptionIdToTopic.get(subscriptionId);
     if (!topic) return false;
-    const existingMatches = this.eventSubscriptions.findMatches(topic);
-    const existing = existingMatches.length > 0 ? existingMatches[0]!.content : [];
+    const existing = this.eventSubscriptions.getExactValues(topic).flat();
     const filtered = existing.filter(e => e.id !== subscriptionId);
     this.eventSubscriptions.setValue(topic, filtered);
     this.subscriptionIdToTopic.delete(subscriptionId);
@@ -102,11 +189,62 @@ export class ServiceRegistry {
     return true;
   }
 
+  // Subscription with the given id and the topic it was registered under
+  findSubscription(
+    subscriptionId: string
+  ): { topic: TopicPath; entry: FullSubscriptionEntry } | undefined {
+    const topic = this.subscriptionIdToTopic.get(subscriptionId);
+    const entry = topic && this.getSubscribers(topic).find(e => e.id === subscriptionId);
+    return topic && entry ? { topic, entry } : undefined;
+  }
+
+  // Ids of the subscriptions registered on behalf of a service
+  getServiceSubscriptionIds(serviceTopic: TopicPath): string[] {
+    const key = serviceTopic.asString();
+    return Array.from(this.subscriptionIdToServiceTopic)
+      .filter(([, topic]) => topic.asString() === key)
+      .map(([id]) => id);
+  }
+
+  // Drop the subscriptions registered on behalf of a service; returns their ids
+  unsubscribeService(serviceTopic: TopicPath): string[] {
+    const ids = this.getServiceSubscriptionIds(serviceTopic);
+    for (const id of ids) this.unsubscribe(id);
+    return ids;
+  }
+
   getSubscribers(topic: TopicPath): FullSubscriptionEntry[] {
     const exact = this.eventSubscriptions.getExactValues(topic);
     return exact.flatMap(list => list);
   }
 
+  // Distinct subscription topics that have at least one subscriber of the given kind
+  getSubscriptionTopics(kind: SubscriberKind): TopicPath[] {
+    const topics = new Map<string, TopicPath>();
+    for (const [id, topic] of this.subscriptionIdToTopic) {
+      const entry = this.getSubscribers(topic).find(e => e.id === id);
+      if (entry?.kind === kind) topics.set(topic.asString(), topic);
+    }
+    return Array.from(topics.values());
+  }
+
+  /**
+   * Subscriptions that receive an event published on topic, including wildcard and
+   * template subscriptions. Each subscription appears once, with its matched params.
+   */
+  findSubscribers(topic: TopicPath): SubscriberMatch[] {
+    const seen = new Set<string>();
+    const matches: SubscriberMatch[] = [];
+    for (const match of this.eventSubscriptions.findMatches(topic)) {
+      for (const entry of match.content) {
+        if (seen.has(entry.id)) continue;
+        seen.add(entry.id);
+        matches.push({ ...entry, params: match.params });
+      }
+    }
+    return matches;
+  }
+
   addLocalService(entry: ServiceEntry): void {
     this.localServices.set(
       entry.serviceTopic.asString?.() ??
@@ -116,26 +254,101 @@ export class ServiceRegistry {
     this.localServiceStates.set(entry.service.path(), entry.serviceState);
   }
 
+  removeLocalService(servicePath: string): ServiceEntry | undefined {
+    for (const [key, entry] of this.localServices) {
+      if (entry.service.path() === servicePath) {
+        this.localServices.delete(key);
+        this.localServiceStates.delete(servicePath);
+        return entry;
+      }
+    }
+    return undefined;
+  }
+
   getLocalServices(): ServiceEntry[] {
     return Array.from(this.localServices.values());
   }
 
-  updateServiceState(servicePath: string, state: ServiceState): void {
+  updateServiceState(servicePath: string, state: ServiceState, error?: string): void {
     for (const [k, v] of this.localServices.entries()) {
       if (v.service.path() === servicePath) {
+        const oldState = v.serviceState;
+        const oldError = v.lastError;
         v.serviceState = state;
+        v.lastError = state === ServiceState.Error ? error : undefined;
         if (state === ServiceState.Running) v.lastStartTime = Date.now();
         this.localServices.set(k, v);
         this.localServiceStates.set(servicePath, state);
+        if (oldState !== state || oldError !== v.lastError) {
+          this.notifyStateChange({
+            servicePath,
+            oldState,
+            newState: state,
+            timestampMs: Date.now(),
+            error: v.lastError,
+          });
+        }
         break;
       }
     }
   }
 
+  // Listen to local service state transitions; returns a function that removes the listener
+  onServiceStateChange(listener: ServiceStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private notifyStateChange(change: ServiceStateChange): void {
+    for (const listener of this.stateListeners) {
+      try {
+        listener(change);
+      } catch {
+        // A failing listener must not break the state transition
+      }
+    }
+  }
+
   getLocalServiceState(serviceTopic: TopicPath): ServiceState | undefined {
     return this.localServiceStates.get(serviceTopic.servicePath());
   }
 
+  addRemoteService(service: RemoteService): void {
+    const key = this.serviceKey(service.getServiceTopic());
+    const existing = this.remoteServices.get(key) ?? [];
+    this.remoteServices.set(key, [...existing, service]);
+  }
+
+  removeRemoteService(service: RemoteService): boolean {
+    const key = this.serviceKey(service.getServiceTopic());
+    const existing = this.remoteServices.get(key);
+    if (!existing || !existing.includes(service)) return false;
+    const filtered = existing.filter(s => s !== service);
+    if (filtered.length > 0) {
+      this.remoteServices.set(key, filtered);
+    } else {
+      this.remoteServices.delete(key);
+    }
+    return true;
+  }
+
+  // All remote providers of a service, in the order they were discovered
+  getRemoteServices(serviceTopic: TopicPath): RemoteService[] {
+    return [...(this.remoteServices.get(this.serviceKey(serviceTopic)) ?? [])];
+  }
+
+  getRemoteServicesForPeer(peerNodeId: string): RemoteService[] {
+    return this.getAllRemoteServices().filter(s => s.getPeerNodeId() === peerNodeId);
+  }
+
+  getAllRemoteServices(): RemoteService[] {
+    return Array.from(this.remoteServices.values()).flat();
+  }
+
+  private serviceKey(serviceTopic: TopicPath): string {
+    return `${serviceTopic.networkId()}:${serviceTopic.servicePath()}`;
+  }
+
   validatePauseTransition(serviceTopic: TopicPath): void {
     const curr = this.getLocalServiceState(serviceTopic);
     if (curr !== ServiceState.Running) {
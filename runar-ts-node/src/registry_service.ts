@@ -5,15 +5,30 @@ import { ServiceEntry } from './index';
 import { NodeRegistryDelegate, RegistryDelegate } from './registry_delegate';
 import { AnyValue } from 'runar-ts-serializer';
 import { ServiceMetadata, ActionMetadata } from 'runar-ts-schemas';
+import type { CircuitInfo } from './circuit_breaker';
+
+// Pause/resume of local services, implemented by the Node
+export interface ServiceStateControl {
+  pauseService(servicePath: string): Promise<Result<void, string>>;
+  resumeService(servicePath: string): Promise<Result<void, string>>;
+}
 
 export class RegistryService implements AbstractService {
   private _networkId?: string;
   private readonly getLocalServices: () => ServiceEntry[];
   private readonly delegate: RegistryDelegate;
-
-  constructor(getLocalServices: () => ServiceEntry[]) {
+  private readonly stateControl: ServiceStateControl;
+  private readonly getCircuits: () => CircuitInfo[];
+
+  constructor(
+    getLocalServices: () => ServiceEntry[],
+    stateControl: ServiceStateControl,
+    getCircuits: () => CircuitInfo[] = () => []
+  ) {
     this.getLocalServices = getLocalServices;
     this.delegate = new NodeRegistryDelegate(this.getLocalServices);
+    this.stateControl = stateControl;
+    this.getCircuits = getCircuits;
   }
 
   name(): string {
@@ -112,15 +127,9 @@ export class RegistryService implements AbstractService {
 
         const match = this.findServiceByPath(servicePath, services);
         if (match) {
-          // validate via delegate
-          const serviceTopicResult = TopicPath.newService(
-            this._networkId ?? 'default',
-            match.service.path()
-          );
-          if (serviceTopicResult.ok) {
-            await this.delegate.validatePauseTransition(serviceTopicResult.value);
-          }
-          match.serviceState = ServiceState.Paused;
+          // The node validates the transition, runs the pause hook and gates requests
+          const result = await this.stateControl.pauseService(match.service.path());
+          if (!result.ok) return err(result.error);
           return ok(AnyValue.from(ServiceState.Paused));
         }
         return err('Service not found');
@@ -140,20 +149,27 @@ export class RegistryService implements AbstractService {
 
         const match = this.findServiceByPath(servicePath, services);
         if (match) {
-          const serviceTopicResult = TopicPath.newService(
-            this._networkId ?? 'default',
-            match.service.path()
-          );
-          if (serviceTopicResult.ok) {
-            await this.delegate.validateResumeTransition(serviceTopicResult.value);
-          }
-          match.serviceState = ServiceState.Running;
+          const result = await this.stateControl.resumeService(match.service.path());
+          if (!result.ok) return err(result.error);
           return ok(AnyValue.from(ServiceState.Running));
         }
         return err('Service not found');
       }
     );
 
+    // circuits/list -> circuit breaker state of every remote service per peer
+    const result6 = await context.registerAction('circuits/list', async () => {
+      const circuits = this.getCircuits().map(c => ({
+        peer_id: c.peerId,
+        service_path: c.servicePath,
+        state: c.state,
+        consecutive_failures: c.consecutiveFailures,
+        opened_at_ms: c.openedAtMs ?? null,
+      }));
+      const value = AnyValue.from(circuits);
+      return value.ok ? ok(value.value as AnyValue) : err(value.error.message);
+    });
+
     console.log('[RegistryService] services/{service_path} registration result:', result2);
     // Return early on any registration failure
     if (!result2.ok) {
@@ -172,6 +188,10 @@ export class RegistryService implements AbstractService {
       context.logger.error(`Failed to register services/{service_path}/resume: ${result5.error}`);
       return err(`Failed to register services/{service_path}/resume: ${result5.error}`);
     }
+    if (!result6.ok) {
+      context.logger.error(`Failed to register circuits/list: ${result6.error}`);
+      return err(`Failed to register circuits/list: ${result6.error}`);
+    }
 
     context.logger.info('RegistryService initialization complete');
     return ok(undefined);
@@ -1,38 +1,109 @@
 import { Result, ok, err } from 'runar-ts-common';
-import {
-  AnyValue,
-  SerializationContext,
-  ResolverCache,
-  LabelResolverConfig,
-} from 'runar-ts-serializer';
+import { AnyValue, SerializationContext } from 'runar-ts-serializer';
+import type { CommonKeysInterface } from 'runar-ts-serializer';
 import { TopicPath } from 'runar-ts-common';
-import { QuicTransport } from './transport';
+import { ServiceMetadata } from 'runar-ts-schemas';
+import { NetworkMessageType, QuicTransport, decodeResponseFrame } from './transport';
 import { Logger } from 'runar-ts-common';
+import { AbstractService, NodeLifecycleContext } from './service';
+import { TransportError, RemoteHandlerError } from './errors';
+import {
+  DEFAULT_STREAM_MAX_CHUNKS,
+  decodeStreamFrame,
+  encodeStreamPull,
+  StreamFrame,
+} from './stream';
 
 /**
  * Request context for remote service calls
  */
 export interface RequestContext {
   correlationId: string;
-  peerNodeId: string;
   userProfilePublicKeys?: Uint8Array[];
   networkPublicKey?: Uint8Array;
   node: {
-    getKeysWrapper(): any; // CommonKeysInterface
+    getKeysWrapper(): CommonKeysInterface;
+    createSerializationContext(userProfileKeys?: Uint8Array[]): SerializationContext;
   };
 }
 
 /**
  * RemoteService provides a local proxy for remote services discovered on peers
  */
-export class RemoteService {
+export class RemoteService implements AbstractService {
+  private _networkId: string;
+  private _metadata: ServiceMetadata;
+  private running = false;
+
   constructor(
     private readonly serviceTopic: TopicPath,
+    private readonly peerNodeId: string,
+    metadata: ServiceMetadata,
     private readonly networkTransport: QuicTransport,
-    private readonly labelResolverCache: ResolverCache,
-    private readonly labelResolverConfig: LabelResolverConfig,
     private readonly logger: Logger
-  ) {}
+  ) {
+    this._networkId = serviceTopic.networkId();
+    this._metadata = metadata;
+  }
+
+  name(): string {
+    return this._metadata.name;
+  }
+  version(): string {
+    return this._metadata.version;
+  }
+  path(): string {
+    return this.serviceTopic.servicePath();
+  }
+  description(): string {
+    return this._metadata.description;
+  }
+  networkId(): string | undefined {
+    return this._networkId;
+  }
+  setNetworkId(networkId: string): void {
+    this._networkId = networkId;
+  }
+
+  async init(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return ok(undefined);
+  }
+
+  async start(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    this.running = true;
+    return ok(undefined);
+  }
+
+  async stop(_context: NodeLifecycleContext): Promise<Result<void, string>> {
+    this.running = false;
+    return ok(undefined);
+  }
+
+  /**
+   * Id of the peer node that hosts this service
+   */
+  getPeerNodeId(): string {
+    return this.peerNodeId;
+  }
+
+  getServiceTopic(): TopicPath {
+    return this.serviceTopic;
+  }
+
+  getMetadata(): ServiceMetadata {
+    return this._metadata;
+  }
+
+  /**
+   * Refresh the metadata when the peer announces a newer NodeInfo
+   */
+  updateMetadata(metadata: ServiceMetadata): void {
+    this._metadata = metadata;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
 
   /**
    * Make a request to the remote service
@@ -42,42 +113,133 @@ export class RemoteService {
     params: AnyValue,
     req: RequestContext
   ): Promise<Result<AnyValue, string>> {
+    if (!this.running) {
+      return err(`Remote service ${this.serviceTopic.asString()} is not running`);
+    }
+
     try {
       const profilePublicKeys = req.userProfilePublicKeys ?? [];
-      const resolverResult = this.labelResolverCache.getOrCreate(
-        this.labelResolverConfig,
-        profilePublicKeys
-      );
-      if (!resolverResult.ok) {
-        return err(`LabelResolver error: ${resolverResult.error.message}`);
-      }
-
-      const networkPk = req.networkPublicKey ?? undefined;
-      const ctx: SerializationContext = {
-        keystore: req.node.getKeysWrapper(),
-        resolver: resolverResult.value,
-        networkPublicKey: networkPk!,
-        profilePublicKeys,
-      };
+      const ctx = req.node.createSerializationContext(profilePublicKeys);
+      const networkPk = req.networkPublicKey ?? ctx.networkPublicKey;
 
       const payloadBytes = params.serialize(ctx);
       if (!payloadBytes.ok) {
         return err(`Encrypt params failed: ${payloadBytes.error.message}`);
       }
 
-      const responseBytes = await this.networkTransport.request(
-        this.serviceTopic.newActionTopic(actionName).asStr(),
-        req.correlationId,
-        payloadBytes.value,
-        req.peerNodeId,
-        networkPk,
-        profilePublicKeys
+      const actionTopic = this.serviceTopic.newActionTopic(actionName);
+      if (!actionTopic.ok) {
+        return err(`Invalid action topic path: ${actionTopic.error}`);
+      }
+
+      this.logger.debug(
+        `Remote request ${actionTopic.value.asString()} to peer ${this.peerNodeId} (${req.correlationId})`
       );
+      let responseBytes: Uint8Array;
+      try {
+        responseBytes = await this.networkTransport.request(
+          actionTopic.value.asString(),
+          req.correlationId,
+          payloadBytes.value,
+          this.peerNodeId,
+          networkPk,
+          profilePublicKeys
+        );
+      } catch (e) {
+        const detail = e instanceof Error ? e.message : String(e);
+        return err(new TransportError(this.peerNodeId, actionTopic.value.asString(), detail));
+      }
 
-      const av = AnyValue.deserialize(responseBytes, { keystore: req.node.getKeysWrapper() });
+      // Failures reported by the peer's node come in the reply, apart from transport failures
+      const response = decodeResponseFrame(responseBytes);
+      if (response.error !== undefined) return err(response.error);
+      if (!response.payload) return err(`Peer ${this.peerNodeId} returned an empty response`);
+      const av = AnyValue.deserialize(response.payload, req.node.getKeysWrapper());
       return av.ok ? ok(av.value) : err(av.error.message);
     } catch (e) {
       return err(e instanceof Error ? e.message : String(e));
     }
   }
+
+  /**
+   * Request a streaming action on the remote service. Chunks are pulled from the peer
+   * in batches as the iteration consumes them; ending the iteration early cancels the
+   * stream on the peer. Throws a TransportError when a frame cannot be sent and a
+   * RemoteHandlerError when the peer's handler fails.
+   */
+  async *requestStream(
+    actionName: string,
+    params: AnyValue,
+    req: RequestContext
+  ): AsyncGenerator<AnyValue> {
+    if (!this.running) {
+      throw new Error(`Remote service ${this.serviceTopic.asString()} is not running`);
+    }
+    const transport = this.networkTransport;
+    if (!transport.streamFrame) {
+      throw new Error('The network transport does not support streaming requests');
+    }
+
+    const profilePublicKeys = req.userProfilePublicKeys ?? [];
+    const ctx = req.node.createSerializationContext(profilePublicKeys);
+    const networkPk = req.networkPublicKey ?? ctx.networkPublicKey;
+
+    const payloadBytes = params.serialize(ctx);
+    if (!payloadBytes.ok) {
+      throw new Error(`Encrypt params failed: ${payloadBytes.error.message}`);
+    }
+    const actionTopic = this.serviceTopic.newActionTopic(actionName);
+    if (!actionTopic.ok) {
+      throw new Error(`Invalid action topic path: ${actionTopic.error}`);
+    }
+    const path = actionTopic.value.asString();
+
+    const send = async (
+      messageType: NetworkMessageType,
+      payload: Uint8Array
+    ): Promise<StreamFrame> => {
+      try {
+        const reply = await transport.streamFrame!(
+          messageType,
+          path,
+          req.correlationId,
+          payload,
+          this.peerNodeId,
+          networkPk,
+          profilePublicKeys
+        );
+        return messageType === NetworkMessageType.StreamCancel
+          ? { chunks: [], done: true }
+          : decodeStreamFrame(reply);
+      } catch (e) {
+        const detail = e instanceof Error ? e.message : String(e);
+        throw new TransportError(this.peerNodeId, path, detail);
+      }
+    };
+
+    this.logger.debug(`Remote stream ${path} from peer ${this.peerNodeId} (${req.correlationId})`);
+    let frame = await send(NetworkMessageType.StreamOpen, payloadBytes.value);
+    let finished = frame.done;
+    try {
+      for (;;) {
+        for (const chunk of frame.chunks) {
+          const av = AnyValue.deserialize(chunk, req.node.getKeysWrapper());
+          if (!av.ok) throw new Error(`Failed to deserialize stream chunk: ${av.error.message}`);
+          yield av.value;
+        }
+        if (frame.error !== undefined) throw new RemoteHandlerError(frame.error);
+        if (frame.done) return;
+        frame = await send(
+          NetworkMessageType.StreamPull,
+          encodeStreamPull({ maxChunks: DEFAULT_STREAM_MAX_CHUNKS })
+        );
+        finished = frame.done;
+      }
+    } finally {
+      if (!finished) {
+        // Let the peer stop its handler; the caller is no longer interested in the outcome
+        void send(NetworkMessageType.StreamCancel, new Uint8Array()).catch(() => undefined);
+      }
+    }
+  }
 }
@@ -0,0 +1,182 @@
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { encode, decode } from 'cbor-x';
+import type { Logger } from 'runar-ts-common';
+
+/**
+ * Retained event as persisted by a RetainedEventStore. The payload is the serialized
+ * AnyValue, encrypted with the node's label resolver.
+ */
+export interface StoredRetainedEvent {
+  // Full topic path (network_id:service/event)
+  topic: string;
+  timestampMs: number;
+  expiresAtMs?: number;
+  payload: Uint8Array;
+}
+
+/**
+ * Persistence for retained events. The Node keeps decoded events in memory and
+ * mirrors every change to the store; load() runs during Node.start().
+ */
+export interface RetainedEventStore {
+  load(): Promise<StoredRetainedEvent[]>;
+  append(event: StoredRetainedEvent): Promise<void>;
+  // Keep only the newest maxEvents events of a topic
+  trim(topic: string, maxEvents: number): Promise<void>;
+  // Drop events that expired at or before nowMs
+  expire(nowMs: number): Promise<void>;
+  remove(topic: string): Promise<void>;
+}
+
+// Store that keeps retained events for the lifetime of the process only
+export class InMemoryRetainedEventStore implements RetainedEventStore {
+  private readonly events = new Map<string, StoredRetainedEvent[]>();
+
+  async load(): Promise<StoredRetainedEvent[]> {
+    return Array.from(this.events.values()).flat();
+  }
+
+  async append(event: StoredRetainedEvent): Promise<void> {
+    const list = this.events.get(event.topic) ?? [];
+    list.push(event);
+    this.events.set(event.topic, list);
+  }
+
+  async trim(topic: string, maxEvents: number): Promise<void> {
+    const list = this.events.get(topic);
+    if (list && list.length > maxEvents) {
+      list.splice(0, list.length - maxEvents);
+    }
+  }
+
+  async expire(nowMs: number): Promise<void> {
+    for (const [topic, list] of this.events) {
+      const live = list.filter(e => e.expiresAtMs === undefined || e.expiresAtMs > nowMs);
+      if (live.length > 0) this.events.set(topic, live);
+      else this.events.delete(topic);
+    }
+  }
+
+  async remove(topic: string): Promise<void> {
+    this.events.delete(topic);
+  }
+}
+
+type LogRecord =
+  | { op: 'append'; event: StoredRetainedEvent }
+  | { op: 'trim'; topic: string; maxEvents: number }
+  | { op: 'expire'; nowMs: number }
+  | { op: 'remove'; topic: string };
+
+/**
+ * Append-only log of length-prefixed CBOR records. load() replays the log and
+ * rewrites it compacted to the surviving events.
+ */
+export class FileRetainedEventStore implements RetainedEventStore {
+  private state = new InMemoryRetainedEventStore();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly logger?: Logger
+  ) {}
+
+  async load(): Promise<StoredRetainedEvent[]> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.writes;
+    this.state = new InMemoryRetainedEventStore();
+    for (const record of await this.readRecords()) {
+      await this.apply(record);
+    }
+
+    const events = await this.state.load();
+    await this.compact(events);
+    return events;
+  }
+
+  async append(event: StoredRetainedEvent): Promise<void> {
+    await this.write({ op: 'append', event });
+  }
+
+  async trim(topic: string, maxEvents: number): Promise<void> {
+    await this.write({ op: 'trim', topic, maxEvents });
+  }
+
+  async expire(nowMs: number): Promise<void> {
+    await this.write({ op: 'expire', nowMs });
+  }
+
+  async remove(topic: string): Promise<void> {
+    await this.write({ op: 'remove', topic });
+  }
+
+  private async apply(record: LogRecord): Promise<void> {
+    switch (record.op) {
+      case 'append':
+        return this.state.append({
+          ...record.event,
+          payload: new Uint8Array(record.event.payload),
+        });
+      case 'trim':
+        return this.state.trim(record.topic, record.maxEvents);
+      case 'expire':
+        return this.state.expire(record.nowMs);
+      case 'remove':
+        return this.state.remove(record.topic);
+    }
+  }
+
+  // Writes are chained so records land in the log in call order
+  private write(record: LogRecord): Promise<void> {
+    const next = this.writes.then(async () => {
+      await this.apply(record);
+      await fs.appendFile(this.filePath, frame(record));
+    });
+    this.writes = next.catch(() => undefined);
+    return next;
+  }
+
+  private async readRecords(): Promise<LogRecord[]> {
+    let data: Uint8Array;
+    try {
+      data = await fs.readFile(this.filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: LogRecord[] = [];
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    let offset = 0;
+    while (offset + 4 <= data.length) {
+      const length = view.getUint32(offset);
+      if (offset + 4 + length > data.length) break;
+      try {
+        records.push(decode(data.subarray(offset + 4, offset + 4 + length)) as LogRecord);
+      } catch (error) {
+        this.logger?.warn?.(`Skipping unreadable retained event record: ${error}`);
+      }
+      offset += 4 + length;
+    }
+    if (offset < data.length) {
+      // A crash during append can leave a partial record at the tail
+      this.logger?.warn?.(`Ignoring ${data.length - offset} trailing bytes in ${this.filePath}`);
+    }
+    return records;
+  }
+
+  private async compact(events: StoredRetainedEvent[]): Promise<void> {
+    const frames = events.map(event => frame({ op: 'append', event }));
+    const tmp = `${this.filePath}.tmp`;
+    await fs.writeFile(tmp, Buffer.concat(frames));
+    await fs.rename(tmp, this.filePath);
+  }
+}
+
+function frame(record: LogRecord): Buffer {
+  const body = encode(record);
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(body.length);
+  return Buffer.concat([header, body]);
+}
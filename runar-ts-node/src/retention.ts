@@ -0,0 +1,52 @@
+import { TopicPath } from 'runar-ts-common';
+import { PatternPolicies } from './pattern_policies';
+
+// How long and how many retained events are kept for a topic
+export interface RetentionPolicy {
+  // Retained events older than this are dropped (kept until evicted by maxEvents when unset)
+  maxAgeMs?: number;
+  // Most recent events kept per topic
+  maxEvents?: number;
+}
+
+// Retention policy for every topic matching a pattern (wildcards and templates allowed)
+export interface TopicRetentionPolicy {
+  pattern: string;
+  policy: RetentionPolicy;
+}
+
+export const DEFAULT_MAX_RETAINED_EVENTS = 100;
+export const DEFAULT_RETENTION_SWEEP_INTERVAL_MS = 1000;
+
+/**
+ * Resolves the retention policy of a topic from the topic policies, matched as
+ * PatternPolicies. Unset fields fall back to the default policy.
+ */
+export class RetentionPolicies {
+  private readonly policies: PatternPolicies<RetentionPolicy>;
+
+  constructor(
+    networkId: string,
+    private readonly defaultPolicy: RetentionPolicy,
+    topicPolicies: TopicRetentionPolicy[]
+  ) {
+    this.policies = new PatternPolicies(networkId, topicPolicies, 'retention policy');
+  }
+
+  policyFor(topic: TopicPath): { maxAgeMs?: number; maxEvents: number } {
+    const matched = this.policies.match(topic)?.policy;
+    return {
+      maxAgeMs: matched?.maxAgeMs ?? this.defaultPolicy.maxAgeMs,
+      maxEvents: matched?.maxEvents ?? this.defaultPolicy.maxEvents ?? DEFAULT_MAX_RETAINED_EVENTS,
+    };
+  }
+
+  /**
+   * Expiry of an event retained at timestampMs. A per-publish TTL (retain_for)
+   * takes precedence over the topic policy.
+   */
+  expiresAt(topic: TopicPath, timestampMs: number, retainForMs?: number): number | undefined {
+    const ttl = retainForMs ?? this.policyFor(topic).maxAgeMs;
+    return ttl === undefined ? undefined : timestampMs + ttl;
+  }
+}
@@ -0,0 +1,71 @@
+import type { Result } from 'runar-ts-common';
+
+// How remote requests are retried after transport failures (see NodeConfig.withRetryPolicy)
+export interface RetryPolicy {
+  // Attempts including the first one (1 disables retries)
+  maxAttempts: number;
+  // Delay before the first retry; doubled on every further retry
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Fraction of each delay that is randomized (0 for fixed delays)
+  jitter?: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { maxAttempts: 1 };
+
+const DEFAULT_INITIAL_BACKOFF_MS = 100;
+const DEFAULT_MAX_BACKOFF_MS = 5_000;
+const DEFAULT_JITTER = 0.5;
+
+// Delay before retry number `retry` (1-based): exponential, capped, reduced by up to `jitter`
+export function retryDelayMs(
+  policy: RetryPolicy,
+  retry: number,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    (policy.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS) * 2 ** (retry - 1),
+    policy.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+  );
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? DEFAULT_JITTER));
+  return Math.round(base * (1 - jitter * random()));
+}
+
+/**
+ * Run an attempt until it succeeds, fails with an error that is not retryable, or
+ * the policy runs out of attempts. When the signal aborts while waiting for the
+ * next attempt, the last attempt's result is returned.
+ */
+export async function withRetries<T>(
+  policy: RetryPolicy,
+  signal: AbortSignal,
+  attempt: (attemptNumber: number) => Promise<Result<T, string>>,
+  isRetryable: (error: unknown) => boolean,
+  random: () => number = Math.random
+): Promise<Result<T, string>> {
+  const maxAttempts = Math.max(1, policy.maxAttempts);
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    const result = await attempt(attemptNumber);
+    if (result.ok || attemptNumber >= maxAttempts || !isRetryable(result.error)) {
+      return result;
+    }
+    const waited = await sleep(retryDelayMs(policy, attemptNumber, random), signal);
+    if (!waited) return result;
+  }
+}
+
+// Resolves false when the signal aborts before the delay has passed
+function sleep(delayMs: number, signal: AbortSignal): Promise<boolean> {
+  if (signal.aborted) return Promise.resolve(false);
+  return new Promise(resolve => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, delayMs);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,5 +1,6 @@
 import { AnyValue } from 'runar-ts-serializer';
 import { Result, err, ok, Logger, TopicPath } from 'runar-ts-common';
+import type { EventSubscriber, EventRegistrationOptions } from './events';
 
 // Service lifecycle states (matching Rust ServiceState)
 export enum ServiceState {
@@ -23,6 +24,13 @@ export interface AbstractService {
   init(context: NodeLifecycleContext): Promise<Result<void, string>>;
   start(context: NodeLifecycleContext): Promise<Result<void, string>>;
   stop(context: NodeLifecycleContext): Promise<Result<void, string>>;
+  // Paths of local services that must be running before this one starts (TypeScript only)
+  dependencies?(): string[];
+  // Called when the service is paused or resumed through $registry (TypeScript only)
+  pause?(context: NodeLifecycleContext): Promise<Result<void, string>>;
+  resume?(context: NodeLifecycleContext): Promise<Result<void, string>>;
+  // Asked by $health while the service is Running; an error marks it down (TypeScript only)
+  healthCheck?(): Promise<Result<void, string>>;
 }
 
 // Service lifecycle context (matching Rust LifecycleContext trait)
@@ -33,9 +41,24 @@ export interface NodeLifecycleContext {
 
   // Action handling (matching Rust register_action)
   registerAction(actionName: string, handler: ActionHandler): Promise<Result<void, string>>;
+  // Actions still registered when the service stops are removed automatically
+  unregisterAction(actionName: string): Promise<Result<void, string>>;
+  // Streaming actions are requested with Node.requestStream() (TypeScript only)
+  registerStreamingAction(
+    actionName: string,
+    handler: StreamingActionHandler
+  ): Promise<Result<void, string>>;
 
   // Event publishing (matching Rust publish)
   publish(topic: string, data?: AnyValue): Promise<Result<void, string>>;
+
+  // Event subscriptions of the service; removed automatically when the service stops
+  subscribe(
+    topic: string,
+    callback: EventSubscriber,
+    options?: EventRegistrationOptions
+  ): Promise<Result<string, string>>;
+  unsubscribe(subscriptionId: string): Promise<Result<void, string>>;
 }
 
 // Action handler type (matching Rust ActionHandler)
@@ -44,6 +67,13 @@ export type ActionHandler = (
   context: RequestContext
 ) => Promise<Result<AnyValue, string>>;
 
+// Streaming action handler: yields the response in chunks (TypeScript only).
+// context.signal is aborted when the caller cancels the stream.
+export type StreamingActionHandler = (
+  payload: AnyValue,
+  context: RequestContext
+) => AsyncIterable<AnyValue>;
+
 // Request context (matching Rust RequestContext)
 export interface RequestContext {
   topicPath: TopicPath;
@@ -51,6 +81,8 @@ export interface RequestContext {
   networkId?: string;
   logger: Logger;
   pathParams: Map<string, string>;
+  // Aborted when the request times out or the caller cancels it
+  signal: AbortSignal;
 
   // Request/Response
   request<P = unknown>(topic: string, payload?: P): Promise<Result<AnyValue, string>>;
@@ -61,9 +93,23 @@ export interface RequestContext {
   error(message: string): void;
 }
 
+// Per-request options (TypeScript only)
+export interface RequestOptions {
+  // Overrides NodeConfig.requestTimeoutMs for this request
+  timeoutMs?: number;
+  // Cancels the request when aborted
+  signal?: AbortSignal;
+  // Requests with the same key go to the same provider while it is available
+  routingKey?: string;
+}
+
 // Node delegate interface for context implementations
 export interface NodeDelegate {
-  request<P = unknown>(path: string, payload?: P): Promise<Result<AnyValue, string>>;
+  request<P = unknown>(
+    path: string,
+    payload?: P,
+    options?: RequestOptions
+  ): Promise<Result<AnyValue, string>>;
   publish(topic: string, data?: AnyValue): Promise<Result<void, string>>;
 }
 
@@ -73,6 +119,10 @@ export interface EventContext {
   node: NodeDelegate;
   networkId?: string;
   logger: Logger;
+  // Params bound by template segments of the subscription (e.g. {id})
+  pathParams: Map<string, string>;
+  // Id of this event; redeliveries of a guaranteed event reuse it
+  deliveryId: string;
 
   // Event publishing
   publish(topic: string, data?: AnyValue): Promise<Result<void, string>>;
@@ -89,4 +139,13 @@ export interface ServiceEntry {
   serviceState: ServiceState;
   registrationTime: number;
   lastStartTime?: number;
+  // Reason the service is in ServiceState.Error
+  lastError?: string;
+}
+
+// Outcome of Node.start() for the local services
+export interface ServiceStartReport {
+  started: string[];
+  failed: Array<{ servicePath: string; error: string }>;
+  timedOut: string[];
 }
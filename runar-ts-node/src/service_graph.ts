@@ -0,0 +1,111 @@
+import { ServiceDependencyCycleError } from './errors';
+
+// A service path and the service paths it depends on
+export interface ServiceDependencies {
+  path: string;
+  dependencies: string[];
+}
+
+// Task run for one service; `failed` lists prerequisites that failed or do not exist
+export type ServiceGraphTask = (path: string, failed: string[]) => Promise<boolean>;
+
+/**
+ * Dependency graph of the local services. Dependencies on paths outside the graph
+ * are reported as missing; cycles are detected before anything runs.
+ */
+export class ServiceDependencyGraph {
+  private readonly dependencies = new Map<string, string[]>();
+  private readonly dependents = new Map<string, string[]>();
+  private readonly missing = new Map<string, string[]>();
+
+  constructor(services: ServiceDependencies[]) {
+    for (const { path } of services) {
+      this.dependencies.set(path, []);
+      this.dependents.set(path, []);
+    }
+    for (const { path, dependencies } of services) {
+      for (const dependency of new Set(dependencies)) {
+        if (!this.dependencies.has(dependency)) {
+          this.missing.set(path, [...(this.missing.get(path) ?? []), dependency]);
+          continue;
+        }
+        this.dependencies.get(path)!.push(dependency);
+        this.dependents.get(dependency)!.push(path);
+      }
+    }
+  }
+
+  dependenciesOf(path: string): string[] {
+    return [...(this.dependencies.get(path) ?? [])];
+  }
+
+  dependentsOf(path: string): string[] {
+    return [...(this.dependents.get(path) ?? [])];
+  }
+
+  missingDependenciesOf(path: string): string[] {
+    return [...(this.missing.get(path) ?? [])];
+  }
+
+  /**
+   * Return one dependency cycle as [a, b, ..., a], or undefined when the graph is acyclic
+   */
+  findCycle(): string[] | undefined {
+    const visiting = new Set<string>();
+    const done = new Set<string>();
+    const stack: string[] = [];
+
+    const visit = (path: string): string[] | undefined => {
+      if (done.has(path)) return undefined;
+      if (visiting.has(path)) return [...stack.slice(stack.indexOf(path)), path];
+      visiting.add(path);
+      stack.push(path);
+      for (const dependency of this.dependencies.get(path) ?? []) {
+        const cycle = visit(dependency);
+        if (cycle) return cycle;
+      }
+      stack.pop();
+      visiting.delete(path);
+      done.add(path);
+      return undefined;
+    };
+
+    for (const path of this.dependencies.keys()) {
+      const cycle = visit(path);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  }
+
+  /**
+   * Run task for every service once its prerequisites have finished, in parallel
+   * where possible. Prerequisites are the dependencies, or the dependents when
+   * reverse is set (shutdown order). A task that throws counts as failed.
+   */
+  async run(task: ServiceGraphTask, reverse = false): Promise<Map<string, boolean>> {
+    const cycle = this.findCycle();
+    if (cycle) {
+      throw new ServiceDependencyCycleError(cycle);
+    }
+
+    const edges = reverse ? this.dependents : this.dependencies;
+    const runs = new Map<string, Promise<boolean>>();
+
+    const runOne = (path: string): Promise<boolean> => {
+      const existing = runs.get(path);
+      if (existing) return existing;
+      const prerequisites = edges.get(path) ?? [];
+      const started = Promise.all(prerequisites.map(runOne)).then(results => {
+        const failed = prerequisites.filter((_, i) => !results[i]);
+        if (!reverse) failed.push(...this.missingDependenciesOf(path));
+        return task(path, failed).catch(() => false);
+      });
+      runs.set(path, started);
+      return started;
+    };
+
+    const paths = Array.from(this.dependencies.keys());
+    const results = await Promise.all(paths.map(runOne));
+    return new Map(paths.map((path, i) => [path, results[i]!]));
+  }
+}
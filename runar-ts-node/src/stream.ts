@@ -0,0 +1,229 @@
+import { encode, decode } from 'cbor-x';
+import type { Logger } from 'runar-ts-common';
+import type { AnyValue } from 'runar-ts-serializer';
+import { RequestCancelledError, RequestTimeoutError } from './errors';
+import { errorMessage } from './helpers';
+
+// Reply to a StreamOpen or StreamPull frame
+export interface StreamFrame {
+  // Serialized AnyValue chunks, in order
+  chunks: Uint8Array[];
+  done: boolean;
+  // Set when the handler failed; the stream ends after the chunks
+  error?: string;
+}
+
+// Body of a StreamPull frame
+export interface StreamPull {
+  maxChunks: number;
+}
+
+export const DEFAULT_STREAM_MAX_CHUNKS = 16;
+export const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 60_000;
+
+export function encodeStreamFrame(frame: StreamFrame): Uint8Array {
+  return encode(frame);
+}
+
+export function decodeStreamFrame(bytes: Uint8Array): StreamFrame {
+  const frame = decode(bytes) as StreamFrame;
+  return { ...frame, chunks: frame.chunks.map(chunk => new Uint8Array(chunk)) };
+}
+
+export function encodeStreamPull(pull: StreamPull): Uint8Array {
+  return encode(pull);
+}
+
+export function decodeStreamPull(bytes: Uint8Array): StreamPull {
+  return bytes.length > 0 ? (decode(bytes) as StreamPull) : { maxChunks: 1 };
+}
+
+/**
+ * Iterate a stream one chunk at a time, as the consumer asks for it. Aborting the
+ * signal ends the iteration with a RequestCancelledError, and a chunk that takes
+ * longer than chunkTimeoutMs (when positive) with a RequestTimeoutError. The source
+ * iterator is closed whenever the iteration ends early.
+ */
+export async function* iterateWithSignal<T>(
+  source: AsyncIterable<T>,
+  signal: AbortSignal,
+  path: string,
+  chunkTimeoutMs = 0
+): AsyncGenerator<T> {
+  const iterator = source[Symbol.asyncIterator]();
+  let finished = false;
+  try {
+    for (;;) {
+      const next = await untilAborted(iterator.next(), signal, path, chunkTimeoutMs);
+      if (next.done) {
+        finished = true;
+        return;
+      }
+      yield next.value;
+    }
+  } finally {
+    // A pending next() keeps the generator busy, so closing is not awaited
+    if (!finished) void Promise.resolve(iterator.return?.()).catch(() => undefined);
+  }
+}
+
+function untilAborted<T>(
+  promise: Promise<T>,
+  signal: AbortSignal,
+  path: string,
+  timeoutMs: number
+): Promise<T> {
+  if (signal.aborted) return Promise.reject(new RequestCancelledError(path));
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => reject(new RequestCancelledError(path));
+    signal.addEventListener('abort', onAbort, { once: true });
+    const timer =
+      timeoutMs > 0
+        ? setTimeout(() => reject(new RequestTimeoutError(path, timeoutMs)), timeoutMs)
+        : undefined;
+    const settle = (): void => {
+      signal.removeEventListener('abort', onAbort);
+      if (timer) clearTimeout(timer);
+    };
+    promise.then(
+      value => {
+        settle();
+        resolve(value);
+      },
+      error => {
+        settle();
+        reject(error);
+      }
+    );
+  });
+}
+
+interface StreamSession {
+  path: string;
+  iterator: AsyncIterator<AnyValue>;
+  // Serializes chunks for the caller (with the caller's profile keys)
+  serialize: (value: AnyValue) => Uint8Array;
+  // A chunk requested but not yet sent, carried over to the next pull
+  pending?: Promise<IteratorResult<AnyValue>>;
+  controller: AbortController;
+  timer?: NodeJS.Timeout;
+  release: () => void;
+}
+
+/**
+ * Streams served to peers, keyed by the caller's peer id and correlation id. The
+ * handler only advances when the caller pulls, which gives the stream its
+ * backpressure. Sessions end when the handler completes or fails, the caller
+ * cancels or disconnects, or no pull arrives within the idle timeout.
+ */
+export class StreamSessions {
+  private readonly sessions = new Map<string, StreamSession>();
+
+  constructor(
+    private readonly idleTimeoutMs: number = DEFAULT_STREAM_IDLE_TIMEOUT_MS,
+    private readonly logger?: Logger
+  ) {}
+
+  open(
+    peerId: string,
+    correlationId: string,
+    path: string,
+    source: AsyncIterable<AnyValue>,
+    serialize: (value: AnyValue) => Uint8Array,
+    controller: AbortController,
+    release: () => void = (): void => {}
+  ): void {
+    const key = this.key(peerId, correlationId);
+    this.close(key, 'replaced by a new stream');
+    this.sessions.set(key, {
+      path,
+      iterator: source[Symbol.asyncIterator](),
+      serialize,
+      controller,
+      release,
+    });
+    this.touch(key);
+  }
+
+  // Up to maxChunks chunks: waits for the first, then takes those that are ready
+  async pull(peerId: string, correlationId: string, maxChunks: number): Promise<StreamFrame> {
+    const key = this.key(peerId, correlationId);
+    const session = this.sessions.get(key);
+    if (!session) return { chunks: [], done: true, error: `Unknown stream ${correlationId}` };
+    this.touch(key);
+
+    const chunks: Uint8Array[] = [];
+    try {
+      while (chunks.length < Math.max(1, maxChunks)) {
+        const next = session.pending ?? session.iterator.next();
+        session.pending = undefined;
+        const result = chunks.length === 0 ? await next : await readyOrUndefined(next);
+        if (result === undefined) {
+          session.pending = next;
+          break;
+        }
+        if (result.done) {
+          this.finish(key);
+          return { chunks, done: true };
+        }
+        chunks.push(session.serialize(result.value));
+      }
+      return { chunks, done: false };
+    } catch (error) {
+      this.finish(key);
+      return { chunks, done: true, error: errorMessage(error) };
+    }
+  }
+
+  cancel(peerId: string, correlationId: string): void {
+    this.close(this.key(peerId, correlationId), 'cancelled by the caller');
+  }
+
+  // Close the streams of a peer, e.g. when it disconnects
+  closePeer(peerId: string): void {
+    for (const key of Array.from(this.sessions.keys())) {
+      if (key.startsWith(`${peerId}|`)) this.close(key, `peer ${peerId} disconnected`);
+    }
+  }
+
+  closeAll(): void {
+    for (const key of Array.from(this.sessions.keys())) this.close(key, 'node stopped');
+  }
+
+  private close(key: string, reason: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+    this.logger?.debug?.(`Closing stream ${session.path}: ${reason}`);
+    session.controller.abort(new Error(`Stream ${reason}`));
+    void Promise.resolve(session.iterator.return?.()).catch(() => undefined);
+    this.finish(key);
+  }
+
+  private finish(key: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+    if (session.timer) clearTimeout(session.timer);
+    this.sessions.delete(key);
+    session.release();
+  }
+
+  private touch(key: string): void {
+    const session = this.sessions.get(key);
+    if (!session) return;
+    if (session.timer) clearTimeout(session.timer);
+    session.timer = setTimeout(() => this.close(key, 'idle'), this.idleTimeoutMs);
+    session.timer.unref?.();
+  }
+
+  private key(peerId: string, correlationId: string): string {
+    return `${peerId}|${correlationId}`;
+  }
+}
+
+// Resolves with the result if the promise settles within the current turn of the event loop
+function readyOrUndefined<T>(promise: Promise<T>): Promise<T | undefined> {
+  return Promise.race([
+    promise,
+    new Promise<undefined>(resolve => setImmediate(() => resolve(undefined))),
+  ]);
+}
@@ -0,0 +1,191 @@
+import type { Logger, Result } from 'runar-ts-common';
+import { errorMessage } from './helpers';
+
+export type RestartStrategy = 'never' | 'on-failure' | 'always';
+
+// How a failed service is restarted (see NodeConfig.withRestartPolicy)
+export interface RestartPolicy {
+  strategy: RestartStrategy;
+  // on-failure only: restarts attempted before the service is left in Error
+  maxRetries?: number;
+  // Delay before the first restart; doubled on every further attempt
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  // Consecutive handler throws that count as a service failure
+  handlerFailureThreshold?: number;
+  // A failure this long after the previous one starts counting attempts from zero again
+  resetAfterMs?: number;
+}
+
+export type RestartEventKind = 'scheduled' | 'restarted' | 'failed' | 'gave_up';
+
+// Published on $registry/services/{service_path}/restart
+export interface RestartEvent {
+  servicePath: string;
+  kind: RestartEventKind;
+  attempt: number;
+  reason: string;
+  delayMs?: number;
+  error?: string;
+}
+
+export interface SupervisorHooks {
+  // Run stop -> init -> start for the service
+  restart(servicePath: string): Promise<Result<void, string>>;
+  publish(event: RestartEvent): Promise<void>;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_INITIAL_BACKOFF_MS = 100;
+const DEFAULT_MAX_BACKOFF_MS = 30_000;
+const DEFAULT_HANDLER_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_AFTER_MS = 60_000;
+
+interface SupervisedService {
+  attempts: number;
+  lastFailureMs: number;
+  handlerFailures: number;
+  timer?: NodeJS.Timeout;
+  restarting: boolean;
+}
+
+/**
+ * Restarts failed services according to their restart policy. The node reports
+ * services that failed to start and handlers that keep throwing; restarts are
+ * retried with exponential backoff and every step is published as a RestartEvent.
+ */
+export class Supervisor {
+  private readonly services = new Map<string, SupervisedService>();
+  private running = false;
+
+  constructor(
+    private readonly defaultPolicy: RestartPolicy,
+    private readonly policies: Map<string, RestartPolicy>,
+    private readonly hooks: SupervisorHooks,
+    private readonly logger?: Logger
+  ) {}
+
+  policyFor(servicePath: string): RestartPolicy {
+    return this.policies.get(servicePath) ?? this.defaultPolicy;
+  }
+
+  start(): void {
+    this.running = true;
+  }
+
+  // Cancel scheduled restarts; a restart already in progress completes
+  stop(): void {
+    this.running = false;
+    for (const service of this.services.values()) {
+      if (service.timer) clearTimeout(service.timer);
+    }
+    this.services.clear();
+  }
+
+  // Cancel a pending restart and forget the failure history, e.g. when the service is removed
+  forget(servicePath: string): void {
+    const service = this.services.get(servicePath);
+    if (service?.timer) clearTimeout(service.timer);
+    this.services.delete(servicePath);
+  }
+
+  /**
+   * Report that a service failed. Schedules a restart unless the policy is never,
+   * the retries are exhausted, or a restart is already pending.
+   */
+  reportFailure(servicePath: string, reason: string): void {
+    if (!this.running) return;
+    const policy = this.policyFor(servicePath);
+    if (policy.strategy === 'never') return;
+
+    const service = this.serviceState(servicePath);
+    if (service.timer || service.restarting) return;
+
+    const now = Date.now();
+    if (now - service.lastFailureMs > (policy.resetAfterMs ?? DEFAULT_RESET_AFTER_MS)) {
+      service.attempts = 0;
+    }
+    service.lastFailureMs = now;
+
+    const maxRetries = policy.maxRetries ?? DEFAULT_MAX_RETRIES;
+    if (policy.strategy === 'on-failure' && service.attempts >= maxRetries) {
+      this.logger?.error?.(`Giving up on ${servicePath} after ${service.attempts} restarts`);
+      this.emit({ servicePath, kind: 'gave_up', attempt: service.attempts, reason });
+      return;
+    }
+
+    service.attempts++;
+    const initial = policy.initialBackoffMs ?? DEFAULT_INITIAL_BACKOFF_MS;
+    const delayMs = Math.min(
+      initial * 2 ** (service.attempts - 1),
+      policy.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+    );
+    this.logger?.warn?.(`Restarting ${servicePath} in ${delayMs}ms: ${reason}`);
+    this.emit({ servicePath, kind: 'scheduled', attempt: service.attempts, reason, delayMs });
+
+    service.timer = setTimeout(() => {
+      service.timer = undefined;
+      void this.restart(servicePath, service, reason);
+    }, delayMs);
+    service.timer.unref?.();
+  }
+
+  // Report a handler of the service that threw
+  reportHandlerFailure(servicePath: string, error: string): void {
+    if (!this.running) return;
+    const service = this.serviceState(servicePath);
+    service.handlerFailures++;
+    const threshold =
+      this.policyFor(servicePath).handlerFailureThreshold ?? DEFAULT_HANDLER_FAILURE_THRESHOLD;
+    if (service.handlerFailures >= threshold) {
+      service.handlerFailures = 0;
+      this.reportFailure(servicePath, `${threshold} consecutive handler failures: ${error}`);
+    }
+  }
+
+  reportHandlerSuccess(servicePath: string): void {
+    const service = this.services.get(servicePath);
+    if (service) service.handlerFailures = 0;
+  }
+
+  private async restart(
+    servicePath: string,
+    service: SupervisedService,
+    reason: string
+  ): Promise<void> {
+    if (!this.running) return;
+    service.restarting = true;
+    let error: string | undefined;
+    try {
+      const result = await this.hooks.restart(servicePath);
+      if (!result.ok) error = errorMessage(result.error);
+    } catch (thrown) {
+      error = errorMessage(thrown);
+    } finally {
+      service.restarting = false;
+    }
+
+    if (error === undefined) {
+      this.logger?.info?.(`Restarted ${servicePath} (attempt ${service.attempts})`);
+      this.emit({ servicePath, kind: 'restarted', attempt: service.attempts, reason });
+      return;
+    }
+    this.emit({ servicePath, kind: 'failed', attempt: service.attempts, reason, error });
+    this.reportFailure(servicePath, error);
+  }
+
+  private serviceState(servicePath: string): SupervisedService {
+    let service = this.services.get(servicePath);
+    if (!service) {
+      service = { attempts: 0, lastFailureMs: 0, handlerFailures: 0, restarting: false };
+      this.services.set(servicePath, service);
+    }
+    return service;
+  }
+
+  private emit(event: RestartEvent): void {
+    this.hooks.publish(event).catch(error => {
+      this.logger?.warn?.(`Failed to publish restart event for ${event.servicePath}: ${error}`);
+    });
+  }
+}
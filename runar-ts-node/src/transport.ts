@@ -1,4 +1,87 @@
+import { createHash } from 'node:crypto';
+import { encode, decode } from 'cbor-x';
 import type { Transport as NativeTransport } from 'runar-nodejs-api';
+import type { Logger } from 'runar-ts-common';
+import type { NodeInfo } from 'runar-ts-schemas';
+
+/**
+ * Kinds of messages delivered to a node by its transport
+ */
+export enum NetworkMessageType {
+  Request = 'Request',
+  Event = 'Event',
+  // Stream frames, matched to their stream by correlation id (see stream.ts)
+  StreamOpen = 'StreamOpen',
+  StreamPull = 'StreamPull',
+  StreamCancel = 'StreamCancel',
+}
+
+/**
+ * Inbound message handed from the transport to the node
+ */
+export interface NetworkMessage {
+  message_type: NetworkMessageType;
+  path: string;
+  correlation_id: string;
+  payload_bytes: Uint8Array;
+  source_peer_id: string;
+  network_public_key?: Uint8Array;
+  profile_public_keys?: Uint8Array[];
+}
+
+/**
+ * Node callback for inbound messages. Requests resolve with an encoded ResponseFrame
+ * and stream frames with an encoded StreamFrame, failed or not, so the transport only
+ * has to carry the reply bytes back. A rejection (e.g. for an event) is reported to the
+ * remote caller as a transport failure.
+ */
+export type NetworkMessageHandler = (message: NetworkMessage) => Promise<Uint8Array | undefined>;
+
+/**
+ * Reply to a Request. Failures of the serving node (routing, payload or handler) travel
+ * in the reply, so callers tell them apart from transport failures whatever the
+ * transport does with thrown errors.
+ */
+export interface ResponseFrame {
+  // Serialized AnyValue response
+  payload?: Uint8Array;
+  // Set when the request reached the peer's node and failed there
+  error?: string;
+}
+
+export function encodeResponseFrame(frame: ResponseFrame): Uint8Array {
+  return encode(frame);
+}
+
+export function decodeResponseFrame(bytes: Uint8Array): ResponseFrame {
+  const frame = decode(bytes) as ResponseFrame;
+  return frame.payload ? { ...frame, payload: new Uint8Array(frame.payload) } : frame;
+}
+
+/**
+ * Everything a transport needs from the node that owns it
+ */
+export interface TransportFactoryOptions {
+  nodeId: string;
+  nodePublicKey: Uint8Array;
+  logger: Logger;
+  messageHandler: NetworkMessageHandler;
+  getLocalNodeInfo(): NodeInfo;
+  onPeerNodeInfo(nodeInfo: NodeInfo): Promise<void>;
+  onPeerDisconnected(peerId: string): Promise<void>;
+}
+
+/**
+ * Factory used by the Node to create its transport when networking starts
+ */
+export type TransportFactory = (options: TransportFactoryOptions) => QuicTransport;
+
+/**
+ * Derive the peer id used for transport addressing from a node public key
+ */
+export function peerIdFromPublicKey(publicKey: Uint8Array): string {
+  return createHash('sha256').update(publicKey).digest('base64url').slice(0, 26);
+}
 
 /**
  * Transport interface for QUIC networking
@@ -25,6 +108,17 @@ export interface QuicTransport {
   isConnected(peerId: string): Promise<boolean>;
   isConnectedToPublicKey(peerPublicKey: Uint8Array): Promise<boolean>;
   updatePeers(nodeInfoCbor: Uint8Array): Promise<void>;
+  // Send a stream frame and resolve with the peer's reply; optional, streaming
+  // requests to peers fail on transports without it
+  streamFrame?(
+    messageType: NetworkMessageType,
+    path: string,
+    correlationId: string,
+    payload: Uint8Array,
+    destPeerId: string,
+    networkPublicKey?: Uint8Array,
+    profilePublicKeys?: Uint8Array[]
+  ): Promise<Uint8Array>;
 }
 
 /**
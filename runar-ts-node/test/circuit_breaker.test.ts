@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreakerPolicy, CircuitBreakers, CircuitChange } from '../src/circuit_breaker';
+import { isCircuitOpenError } from '../src/errors';
+
+function breakers(policy: CircuitBreakerPolicy): {
+  breakers: CircuitBreakers;
+  changes: CircuitChange[];
+  advance: (ms: number) => void;
+} {
+  let now = 0;
+  const changes: CircuitChange[] = [];
+  return {
+    breakers: new CircuitBreakers(
+      policy,
+      new Map(),
+      change => changes.push(change),
+      () => now
+    ),
+    changes,
+    advance: ms => {
+      now += ms;
+    },
+  };
+}
+
+describe('CircuitBreakers', () => {
+  it('opens after consecutive transport failures', () => {
+    const { breakers: b, changes } = breakers({ failureThreshold: 2 });
+
+    assert.ok(b.admit('peer-a', 'math').ok);
+    b.recordFailure('peer-a', 'math', 'connection reset');
+    b.recordSuccess('peer-a', 'math');
+    b.recordFailure('peer-a', 'math', 'connection reset');
+    assert.equal(b.stateOf('peer-a', 'math'), 'closed');
+
+    b.recordFailure('peer-a', 'math', 'connection reset');
+    assert.equal(b.stateOf('peer-a', 'math'), 'open');
+    const rejected = b.admit('peer-a', 'math');
+    assert.ok(!rejected.ok && isCircuitOpenError(rejected.error));
+    assert.deepEqual(
+      changes.map(c => [c.oldState, c.newState]),
+      [['closed', 'open']]
+    );
+
+    // Other peers and services have their own circuits
+    assert.ok(b.admit('peer-b', 'math').ok);
+    assert.ok(b.admit('peer-a', 'orders').ok);
+  });
+
+  it('lets a probe through when half-open and closes on success', () => {
+    const {
+      breakers: b,
+      changes,
+      advance,
+    } = breakers({ failureThreshold: 1, openDurationMs: 100 });
+
+    b.recordFailure('peer-a', 'math', 'timeout');
+    advance(100);
+    assert.ok(b.admit('peer-a', 'math').ok);
+    assert.equal(b.stateOf('peer-a', 'math'), 'half_open');
+    assert.ok(!b.admit('peer-a', 'math').ok);
+
+    b.recordSuccess('peer-a', 'math');
+    assert.equal(b.stateOf('peer-a', 'math'), 'closed');
+    assert.deepEqual(
+      changes.map(c => c.newState),
+      ['open', 'half_open', 'closed']
+    );
+  });
+
+  it('reopens when the probe fails', () => {
+    const { breakers: b, advance } = breakers({ failureThreshold: 1, openDurationMs: 100 });
+
+    b.recordFailure('peer-a', 'math', 'timeout');
+    advance(100);
+    assert.ok(b.admit('peer-a', 'math').ok);
+    b.recordFailure('peer-a', 'math', 'timeout');
+
+    assert.equal(b.stateOf('peer-a', 'math'), 'open');
+    advance(50);
+    assert.ok(!b.admit('peer-a', 'math').ok);
+    assert.equal(b.list()[0]!.openedAtMs, 100);
+  });
+
+  it('does nothing when disabled', () => {
+    const { breakers: b, changes } = breakers({ enabled: false, failureThreshold: 1 });
+
+    b.recordFailure('peer-a', 'math', 'timeout');
+    assert.ok(b.admit('peer-a', 'math').ok);
+    assert.deepEqual(changes, []);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DeadLetter, DeadLetters } from '../src/dead_letter';
+
+function letter(id: string): DeadLetter {
+  return {
+    id,
+    topic: 'orders/created',
+    subscriptionId: 'sub-1',
+    error: 'handler failed',
+    deliveryId: `delivery-${id}`,
+    attempts: 1,
+    failedAtMs: 1_000,
+  };
+}
+
+describe('DeadLetters', () => {
+  it('lists dead letters oldest first and drops the oldest beyond maxEntries', () => {
+    const letters = new DeadLetters(2);
+    letters.add(letter('a'));
+    letters.add(letter('b'));
+    letters.add(letter('c'));
+
+    assert.deepEqual(
+      letters.list().map(l => l.id),
+      ['b', 'c']
+    );
+    assert.equal(letters.get('a'), undefined);
+    assert.equal(letters.size, 2);
+  });
+
+  it('records failed replays and removes delivered dead letters', () => {
+    const letters = new DeadLetters();
+    letters.add(letter('a'));
+
+    letters.recordFailure('a', 'still failing', 2_000);
+    assert.deepEqual(letters.get('a'), {
+      ...letter('a'),
+      attempts: 2,
+      error: 'still failing',
+      failedAtMs: 2_000,
+    });
+
+    assert.equal(letters.remove('a'), true);
+    assert.equal(letters.remove('a'), false);
+    assert.deepEqual(letters.list(), []);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventBuffer } from '../src/event_stream';
+
+async function drain(buffer: EventBuffer<number>, count: number): Promise<number[]> {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) values.push((await buffer.next()).value as number);
+  return values;
+}
+
+describe('EventBuffer', () => {
+  it('hands items to a waiting reader and buffers the others in order', async () => {
+    const buffer = new EventBuffer<number>(4);
+    const waiting = buffer.next();
+    await buffer.push(1);
+    assert.deepEqual(await waiting, { value: 1, done: false });
+
+    await buffer.push(2);
+    await buffer.push(3);
+    assert.deepEqual(await drain(buffer, 2), [2, 3]);
+  });
+
+  it('drops the oldest items when full', async () => {
+    const buffer = new EventBuffer<number>(2, 'drop-oldest');
+    for (const value of [1, 2, 3, 4]) await buffer.push(value);
+
+    assert.deepEqual(await drain(buffer, 2), [3, 4]);
+    assert.equal(buffer.dropped, 2);
+  });
+
+  it('blocks pushes until the reader makes room', async () => {
+    const buffer = new EventBuffer<number>(1, 'block');
+    await buffer.push(1);
+    let pushed = false;
+    const blocked = buffer.push(2).then(() => {
+      pushed = true;
+    });
+
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(pushed, false);
+    assert.deepEqual(await drain(buffer, 1), [1]);
+    await blocked;
+    assert.equal(pushed, true);
+    assert.deepEqual(await drain(buffer, 1), [2]);
+    assert.equal(buffer.dropped, 0);
+  });
+
+  it('ends waiting readers and releases blocked pushes when closed', async () => {
+    const buffer = new EventBuffer<number>(1, 'block');
+    await buffer.push(1);
+    const blocked = buffer.push(2);
+    buffer.close();
+
+    await blocked;
+    assert.equal((await buffer.next()).done, true);
+    await buffer.push(3);
+    assert.equal((await buffer.next()).done, true);
+
+    const empty = new EventBuffer<number>();
+    const waiting = empty.next();
+    empty.close();
+    assert.equal((await waiting).done, true);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { err, ok, Result, TopicPath } from 'runar-ts-common';
+import { HealthMonitor, HealthSources } from '../src/health';
+import { AbstractService, ServiceEntry, ServiceState } from '../src/service';
+import type { QuicTransport } from '../src/transport';
+
+function entry(
+  path: string,
+  serviceState: ServiceState,
+  healthCheck?: () => Promise<Result<void, string>>
+): ServiceEntry {
+  const service = { path: () => path, healthCheck } as unknown as AbstractService;
+  const topic = TopicPath.newService('test', path);
+  assert.ok(topic.ok);
+  return { service, serviceTopic: topic.value, serviceState, registrationTime: 0 };
+}
+
+function sources(overrides: Partial<HealthSources> = {}): HealthSources {
+  return {
+    getLocalServices: () => [],
+    networkingEnabled: () => false,
+    getTransport: () => undefined,
+    getPeerIds: () => [],
+    keystore: {
+      getKeystoreState: () => 1,
+      getKeystoreCaps: () => ({
+        canEncrypt: true,
+        canDecrypt: true,
+        hasNetworkKeys: true,
+        hasProfileKeys: false,
+      }),
+    },
+    ...overrides,
+  };
+}
+
+function statusOf(components: { component: string; status: string }[]): Record<string, string> {
+  return Object.fromEntries(components.map(c => [c.component, c.status]));
+}
+
+describe('HealthMonitor', () => {
+  it('is live unless a service is in Error or fails its health check', async () => {
+    const monitor = new HealthMonitor(
+      sources({
+        getLocalServices: () => [
+          entry('math', ServiceState.Running, async () => ok(undefined)),
+          entry('orders', ServiceState.Running, async () => err('database unreachable')),
+          entry('reports', ServiceState.Paused),
+          entry('billing', ServiceState.Error),
+        ],
+      })
+    );
+
+    const live = await monitor.liveness();
+    assert.equal(live.status, 'down');
+    assert.deepEqual(statusOf(live.components), {
+      'service:math': 'up',
+      'service:orders': 'down',
+      'service:reports': 'up',
+      'service:billing': 'down',
+    });
+    assert.equal(live.components[1]!.detail, 'database unreachable');
+  });
+
+  it('requires running services, connected peers and a usable keystore to be ready', async () => {
+    const transport = {
+      isConnected: async (peerId: string) => peerId === 'peer-a',
+    } as unknown as QuicTransport;
+    const monitor = new HealthMonitor(
+      sources({
+        getLocalServices: () => [
+          entry('math', ServiceState.Running),
+          entry('reports', ServiceState.Paused),
+        ],
+        networkingEnabled: () => true,
+        getTransport: () => transport,
+        getPeerIds: () => ['peer-a', 'peer-b'],
+      })
+    );
+
+    const ready = await monitor.readiness();
+    assert.equal(ready.status, 'down');
+    assert.deepEqual(statusOf(ready.components), {
+      'service:math': 'up',
+      'service:reports': 'down',
+      transport: 'up',
+      keystore: 'up',
+    });
+    assert.equal(
+      ready.components.find(c => c.component === 'transport')!.detail,
+      'connected to 1 of 2 peers'
+    );
+  });
+
+  it('reports the transport down before networking starts and a broken keystore', async () => {
+    const monitor = new HealthMonitor(
+      sources({
+        networkingEnabled: () => true,
+        keystore: {
+          getKeystoreState: () => {
+            throw new Error('keystore locked');
+          },
+          getKeystoreCaps: () => ({
+            canEncrypt: false,
+            canDecrypt: false,
+            hasNetworkKeys: false,
+            hasProfileKeys: false,
+          }),
+        },
+      })
+    );
+
+    const ready = await monitor.readiness();
+    assert.deepEqual(ready.components, [
+      { component: 'transport', status: 'down', detail: 'networking is not started' },
+      { component: 'keystore', status: 'down', detail: 'keystore locked' },
+    ]);
+  });
+
+  it('fails health checks that throw or time out', async () => {
+    const monitor = new HealthMonitor(
+      sources({
+        getLocalServices: () => [
+          entry('slow', ServiceState.Running, () => new Promise(() => {})),
+          entry('broken', ServiceState.Running, async () => {
+            throw new Error('boom');
+          }),
+        ],
+      }),
+      { checkTimeoutMs: 10 }
+    );
+
+    const live = await monitor.liveness();
+    assert.deepEqual(
+      live.components.map(c => c.detail),
+      ['health check timed out after 10ms', 'boom']
+    );
+  });
+});
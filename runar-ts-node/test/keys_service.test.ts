@@ -14,7 +14,7 @@ describe('KeysService', () => {
     const config = new NodeConfig('net').withKeyManager(keys);
     const node = new Node(config);
     const delegate = new KeysManagerWrapper(keys);
-    node.addService(new KeysService(delegate));
+    assert.equal((await node.addService(new KeysService(delegate))).ok, true);
     await node.start();
     const result = await node.request('$keys/ensure_symmetric_key', 'label');
     if (!result.ok) {
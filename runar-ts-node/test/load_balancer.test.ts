@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { LOCAL_PROVIDER_ID, LoadBalancingStrategy, ServiceProviders } from '../src/load_balancer';
+
+function providers(strategy: LoadBalancingStrategy, random?: () => number): ServiceProviders {
+  return new ServiceProviders(strategy, new Map(), random);
+}
+
+function pick(set: ServiceProviders, ids: string[], times: number): string[] {
+  return Array.from({ length: times }, () => set.select('math', ids)!.id);
+}
+
+describe('ServiceProviders', () => {
+  it('prefers the local node and round-robins remote providers otherwise', () => {
+    const set = providers('prefer-local');
+
+    assert.deepEqual(pick(set, [LOCAL_PROVIDER_ID, 'peer-a'], 2), ['local', 'local']);
+    assert.deepEqual(pick(set, ['peer-a', 'peer-b'], 3), ['peer-a', 'peer-b', 'peer-a']);
+    assert.equal(set.select('math', []), undefined);
+  });
+
+  it('rotates through providers with round-robin', () => {
+    const set = providers('round-robin');
+
+    assert.deepEqual(pick(set, [LOCAL_PROVIDER_ID, 'peer-a', 'peer-b'], 4), [
+      'local',
+      'peer-a',
+      'peer-b',
+      'local',
+    ]);
+  });
+
+  it('picks the provider with the fewest outstanding requests', () => {
+    const set = providers('least-outstanding');
+    const doneA = set.begin('math', 'peer-a');
+    set.begin('math', 'peer-b');
+    set.begin('math', 'peer-b');
+
+    assert.equal(set.select('math', ['peer-a', 'peer-b'])!.outstanding, 1);
+    assert.equal(set.select('math', ['peer-a', 'peer-b'])!.id, 'peer-a');
+    set.begin('math', 'peer-a');
+    doneA();
+    doneA();
+    assert.equal(set.select('math', ['peer-b', 'peer-a'])!.id, 'peer-a');
+  });
+
+  it('picks randomly and supports custom strategies', () => {
+    assert.equal(
+      providers('random', () => 0.99).select('math', ['peer-a', 'peer-b'])!.id,
+      'peer-b'
+    );
+
+    const last = providers({ select: list => list[list.length - 1]! });
+    assert.equal(last.select('math', [LOCAL_PROVIDER_ID, 'peer-a'])!.id, 'peer-a');
+  });
+
+  it('routes requests with the same key to the same provider', () => {
+    const set = providers('round-robin');
+    const ids = ['peer-a', 'peer-b', 'peer-c'];
+    const chosen = set.select('math', ids, 'user-42')!.id;
+
+    assert.deepEqual(
+      Array.from({ length: 5 }, () => set.select('math', ids, 'user-42')!.id),
+      Array(5).fill(chosen)
+    );
+    // Removing another provider keeps the key where it was
+    const other = ids.find(id => id !== chosen)!;
+    assert.equal(
+      set.select(
+        'math',
+        ids.filter(id => id !== other),
+        'user-42'
+      )!.id,
+      chosen
+    );
+  });
+});
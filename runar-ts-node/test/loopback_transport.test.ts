@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Logger, Component } from 'runar-ts-common';
+import type { NodeInfo } from 'runar-ts-schemas';
+import { LoopbackNetwork } from '../src/loopback';
+import {
+  NetworkMessage,
+  NetworkMessageType,
+  QuicTransport,
+  peerIdFromPublicKey,
+} from '../src/transport';
+import { NodeDiscovery } from '../src/discovery';
+
+type TestPeer = {
+  nodeId: string;
+  transport: QuicTransport;
+  discovery: NodeDiscovery;
+  received: NetworkMessage[];
+  peerInfos: NodeInfo[];
+  disconnected: string[];
+};
+
+function createPeer(network: LoopbackNetwork, seed: number): TestPeer {
+  const nodePublicKey = new Uint8Array(32).fill(seed);
+  const nodeId = peerIdFromPublicKey(nodePublicKey);
+  const logger = Logger.newRoot(Component.Transporter);
+  const peer: Partial<TestPeer> = { nodeId, received: [], peerInfos: [], disconnected: [] };
+
+  peer.transport = network.transportFactory()({
+    nodeId,
+    nodePublicKey,
+    logger,
+    messageHandler: async message => {
+      peer.received!.push(message);
+      if (message.message_type === NetworkMessageType.Request) {
+        return new Uint8Array([...message.payload_bytes].reverse());
+      }
+      return undefined;
+    },
+    getLocalNodeInfo: () => ({
+      node_public_key: nodePublicKey,
+      network_ids: ['net'],
+      addresses: [],
+      node_metadata: { services: [], subscriptions: [] },
+      version: 0,
+    }),
+    onPeerNodeInfo: async info => {
+      peer.peerInfos!.push(info);
+    },
+    onPeerDisconnected: async peerId => {
+      peer.disconnected!.push(peerId);
+    },
+  });
+  peer.discovery = network.discoveryFactory()({ nodeId, nodePublicKey, logger });
+  return peer as TestPeer;
+}
+
+async function startPeer(peer: TestPeer): Promise<void> {
+  await peer.transport.start();
+  await peer.discovery.init(new Uint8Array());
+  await peer.discovery.bindEventsToTransport(peer.transport);
+  await peer.discovery.startAnnouncing();
+}
+
+describe('LoopbackTransport', () => {
+  it('connects announced peers and exchanges node info', async () => {
+    const network = new LoopbackNetwork();
+    const a = createPeer(network, 1);
+    const b = createPeer(network, 2);
+    await startPeer(a);
+    await startPeer(b);
+
+    assert.equal(await a.transport.isConnected(b.nodeId), true);
+    assert.equal(await b.transport.isConnected(a.nodeId), true);
+    assert.equal(a.peerInfos.length, 1);
+    assert.equal(b.peerInfos.length, 1);
+    assert.equal(peerIdFromPublicKey(a.peerInfos[0]!.node_public_key), b.nodeId);
+  });
+
+  it('delivers requests and returns the response bytes', async () => {
+    const network = new LoopbackNetwork();
+    const a = createPeer(network, 1);
+    const b = createPeer(network, 2);
+    await startPeer(a);
+    await startPeer(b);
+
+    const response = await a.transport.request(
+      'svc/echo',
+      'corr-1',
+      new Uint8Array([1, 2, 3]),
+      b.nodeId
+    );
+
+    assert.deepEqual([...response], [3, 2, 1]);
+    assert.equal(b.received.length, 1);
+    assert.equal(b.received[0]!.path, 'svc/echo');
+    assert.equal(b.received[0]!.correlation_id, 'corr-1');
+    assert.equal(b.received[0]!.source_peer_id, a.nodeId);
+  });
+
+  it('delivers publishes as event messages', async () => {
+    const network = new LoopbackNetwork();
+    const a = createPeer(network, 1);
+    const b = createPeer(network, 2);
+    await startPeer(a);
+    await startPeer(b);
+
+    await b.transport.publish('svc/changed', 'corr-2', new Uint8Array([7]), a.nodeId);
+
+    assert.equal(a.received.length, 1);
+    assert.equal(a.received[0]!.message_type, NetworkMessageType.Event);
+    assert.deepEqual([...a.received[0]!.payload_bytes], [7]);
+  });
+
+  it('rejects requests to peers that are not connected', async () => {
+    const network = new LoopbackNetwork();
+    const a = createPeer(network, 1);
+    await startPeer(a);
+
+    await assert.rejects(
+      a.transport.request('svc/echo', 'corr-3', new Uint8Array([1]), 'unknown-peer'),
+      /Not connected to peer unknown-peer/
+    );
+  });
+
+  it('notifies peers when a transport stops', async () => {
+    const network = new LoopbackNetwork();
+    const a = createPeer(network, 1);
+    const b = createPeer(network, 2);
+    await startPeer(a);
+    await startPeer(b);
+
+    await b.discovery.shutdown();
+    await b.transport.stop();
+
+    assert.deepEqual(a.disconnected, [b.nodeId]);
+    assert.equal(await a.transport.isConnected(b.nodeId), false);
+  });
+});
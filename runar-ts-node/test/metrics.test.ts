@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NodeMetrics } from '../src/metrics';
+
+describe('NodeMetrics', () => {
+  it('counts requests and errors per action', () => {
+    const metrics = new NodeMetrics();
+    metrics.recordRequest('math/add', 2, true);
+    metrics.recordRequest('math/add', 3, false);
+    metrics.recordRequest('orders/{id}', 1, true);
+
+    const { actions } = metrics.snapshot();
+    assert.equal(actions['math/add']!.requests, 2);
+    assert.equal(actions['math/add']!.errors, 1);
+    assert.equal(actions['orders/{id}']!.requests, 1);
+  });
+
+  it('keeps cumulative latency buckets ending with +Inf', () => {
+    const metrics = new NodeMetrics({ latencyBucketsMs: [50, 10] });
+    metrics.recordRequest('math/add', 5, true);
+    metrics.recordRequest('math/add', 20, true);
+    metrics.recordRequest('math/add', 200, true);
+
+    const latency = metrics.snapshot().actions['math/add']!.latency;
+    assert.deepEqual(latency.buckets, [
+      { le: 10, count: 1 },
+      { le: 50, count: 2 },
+      { le: Number.POSITIVE_INFINITY, count: 3 },
+    ]);
+    assert.equal(latency.sumMs, 225);
+    assert.equal(latency.count, 3);
+  });
+
+  it('counts events and subscriber failures per topic', () => {
+    const metrics = new NodeMetrics();
+    metrics.recordEvent('math/added');
+    metrics.recordEvent('math/added');
+    metrics.recordSubscriberFailure('math/added');
+
+    assert.deepEqual(metrics.snapshot().events, {
+      'math/added': { published: 2, subscriberFailures: 1 },
+    });
+  });
+
+  it('clears everything on reset', () => {
+    const metrics = new NodeMetrics();
+    metrics.recordRequest('math/add', 1, true);
+    metrics.recordEvent('math/added');
+    metrics.reset();
+
+    const snapshot = metrics.snapshot();
+    assert.deepEqual(snapshot.actions, {});
+    assert.deepEqual(snapshot.events, {});
+  });
+
+  it('exports the Prometheus text format', () => {
+    const metrics = new NodeMetrics({ latencyBucketsMs: [10] });
+    metrics.recordRequest('say "hi"', 4, false);
+    metrics.recordEvent('math/added');
+
+    const text = metrics.toPrometheus();
+    assert.match(text, /# TYPE runar_request_duration_ms histogram/);
+    assert.match(text, /runar_requests_total\{action="say \\"hi\\""\} 1/);
+    assert.match(text, /runar_request_errors_total\{action="say \\"hi\\""\} 1/);
+    assert.match(text, /runar_request_duration_ms_bucket\{action="say \\"hi\\"",le="\+Inf"\} 1/);
+    assert.match(text, /runar_events_total\{topic="math\/added"\} 1/);
+    assert.ok(text.endsWith('\n'));
+  });
+});
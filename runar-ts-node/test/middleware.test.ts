@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TopicPath, ok, err } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+import { MiddlewareChain, RequestMiddleware } from '../src/middleware';
+import type { ActionHandler, RequestContext, StreamingActionHandler } from '../src/service';
+
+function payload(label: string): AnyValue {
+  const value = AnyValue.from(label);
+  assert.ok(value.ok);
+  return value.value;
+}
+
+function labelOf(value: AnyValue): string {
+  const label = value.as<string>();
+  assert.ok(label.ok);
+  return label.value;
+}
+const context = {} as RequestContext;
+
+function topic(path: string): TopicPath {
+  const result = TopicPath.new(path, 'net');
+  assert.ok(result.ok);
+  return result.value;
+}
+
+function recording(name: string, calls: string[]): RequestMiddleware {
+  return async (_topicPath, current, _context, next) => {
+    calls.push(`${name}:before`);
+    const result = await next(current);
+    calls.push(`${name}:after`);
+    return result;
+  };
+}
+
+describe('MiddlewareChain', () => {
+  it('runs node middleware around service middleware in registration order', async () => {
+    const chain = new MiddlewareChain();
+    const calls: string[] = [];
+    chain.addForService('math', recording('service', calls));
+    chain.add(recording('node-1', calls));
+    chain.add(recording('node-2', calls));
+    const handler: ActionHandler = async value => {
+      calls.push('handler');
+      return ok(value);
+    };
+
+    const result = await chain.execute(handler, topic('math/add'), payload('in'), context);
+
+    assert.ok(result.ok);
+    assert.deepEqual(calls, [
+      'node-1:before',
+      'node-2:before',
+      'service:before',
+      'handler',
+      'service:after',
+      'node-2:after',
+      'node-1:after',
+    ]);
+  });
+
+  it('only applies service middleware to that service', async () => {
+    const chain = new MiddlewareChain();
+    const calls: string[] = [];
+    chain.addForService('math', recording('math', calls));
+
+    await chain.execute(async v => ok(v), topic('echo/ping'), payload('in'), context);
+
+    assert.deepEqual(calls, []);
+  });
+
+  it('lets middleware replace the payload and observe the result', async () => {
+    const chain = new MiddlewareChain();
+    let seen: string | undefined;
+    chain.add(async (topicPath, _payload, _context, next) => {
+      assert.equal(topicPath.actionPath(), 'math/add');
+      const result = await next(payload('rewritten'));
+      seen = result.ok ? labelOf(result.value) : undefined;
+      return result;
+    });
+
+    const result = await chain.execute(async v => ok(v), topic('math/add'), payload('in'), context);
+
+    assert.ok(result.ok);
+    assert.equal(labelOf(result.value), 'rewritten');
+    assert.equal(seen, 'rewritten');
+  });
+
+  it('short-circuits when middleware returns without calling next', async () => {
+    const chain = new MiddlewareChain();
+    let handled = false;
+    chain.add(async () => err('unauthorized'));
+
+    const result = await chain.execute(
+      async v => {
+        handled = true;
+        return ok(v);
+      },
+      topic('math/add'),
+      payload('in'),
+      context
+    );
+
+    assert.equal(result.ok, false);
+    assert.equal(handled, false);
+  });
+
+  it('removes middleware from node and service lists', async () => {
+    const chain = new MiddlewareChain();
+    const calls: string[] = [];
+    const middleware = recording('m', calls);
+    chain.add(middleware);
+    chain.addForService('math', middleware);
+
+    assert.equal(chain.remove(middleware), true);
+    assert.deepEqual(chain.forService('math'), []);
+    assert.equal(chain.remove(middleware), false);
+  });
+
+  it('opens streams through the middleware with the payload it passes on', async () => {
+    const chain = new MiddlewareChain();
+    chain.addForService('math', async (_topicPath, current, _context, next) =>
+      labelOf(current) === 'denied' ? err('not allowed') : next(payload(`${labelOf(current)}!`))
+    );
+    const handler: StreamingActionHandler = async function* (value) {
+      yield value;
+    };
+
+    const opened = await chain.openStream(handler, topic('math/count'), payload('in'), context);
+    assert.ok(opened.ok);
+    const chunks: string[] = [];
+    for await (const chunk of opened.value) chunks.push(labelOf(chunk));
+    assert.deepEqual(chunks, ['in!']);
+
+    const denied = await chain.openStream(handler, topic('math/count'), payload('denied'), context);
+    assert.deepEqual(denied, err('not allowed'));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { NodeLifecycleContext } from '../src/service';
+import { TestService, addService, anyValue, plain, testConfig } from './test_utils/nodes';
+
+// Service that subscribes to orders/created from init and records what it receives
+function auditService(
+  received: string[],
+  onInit?: (context: NodeLifecycleContext) => void
+): TestService {
+  return new TestService('audit', {
+    init: async context => {
+      onInit?.(context);
+      const subscribed = await context.subscribe('orders/created', async (_context, payload) => {
+        received.push(plain<string>(payload));
+        return ok(undefined);
+      });
+      if (!subscribed.ok) return subscribed;
+      return ok(undefined);
+    },
+  });
+}
+
+describe('Node lifecycle context subscriptions', () => {
+  it('delivers events to subscriptions a service makes in init', async () => {
+    const node = new Node(testConfig(1));
+    const received: string[] = [];
+    let serviceContext: NodeLifecycleContext | undefined;
+    await addService(
+      node,
+      auditService(received, context => (serviceContext = context))
+    );
+    await node.start();
+
+    await node.publish('orders/created', anyValue('order-1'));
+    assert.deepEqual(received, ['order-1']);
+
+    // A subscription made later can be dropped through the same context
+    const late: string[] = [];
+    const subscription = await serviceContext!.subscribe('orders/created', async (_c, payload) => {
+      late.push(plain<string>(payload));
+      return ok(undefined);
+    });
+    assert.ok(subscription.ok);
+    assert.equal((await serviceContext!.unsubscribe(subscription.value)).ok, true);
+    await node.publish('orders/created', anyValue('order-2'));
+    assert.deepEqual(late, []);
+    assert.deepEqual(received, ['order-1', 'order-2']);
+    await node.stop();
+  });
+
+  it('removes the subscriptions of a service when the node stops', async () => {
+    const node = new Node(testConfig(1));
+    const received: string[] = [];
+    await addService(node, auditService(received));
+    await node.start();
+    await node.stop();
+
+    // init subscribes again on restart; the subscription of the first run is gone
+    await node.start();
+    await node.publish('orders/created', anyValue('order-1'));
+    assert.deepEqual(received, ['order-1']);
+    await node.stop();
+  });
+
+  it('removes the subscriptions of a removed service', async () => {
+    const node = new Node(testConfig(1));
+    const received: string[] = [];
+    await addService(node, auditService(received));
+    await node.start();
+
+    assert.equal((await node.removeService('audit')).ok, true);
+    await node.publish('orders/created', anyValue('order-1'));
+    assert.deepEqual(received, []);
+    await node.stop();
+  });
+});
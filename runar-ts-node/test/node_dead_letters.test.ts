@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Result, ok, err } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+import { Node } from '../src/node';
+import { EventContext } from '../src/events';
+import { anyValue, plain, testConfig, valueOf, waitFor } from './test_utils/nodes';
+
+type LetterValue = { topic: string; error: string; attempts: number; id: string };
+
+// Dead letters published on $deadletter/>
+async function watchDeadLetters(node: Node): Promise<AnyValue[]> {
+  const letters: AnyValue[] = [];
+  await node.subscribe('$deadletter/>', async (_context, letter) => {
+    letters.push(letter!);
+    return ok(undefined);
+  });
+  return letters;
+}
+
+describe('Node dead letters', () => {
+  it('retries failed deliveries without holding up the publisher', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    let attempts = 0;
+    await node.subscribe(
+      'orders/created',
+      async (): Promise<Result<void, string>> => {
+        attempts++;
+        return err('handler failed');
+      },
+      { retry: { maxAttempts: 3, initialBackoffMs: 20, jitter: 0 } }
+    );
+    const deadLetters = await watchDeadLetters(node);
+
+    assert.equal((await node.publish('orders/created', anyValue('order-1'))).ok, true);
+    assert.equal(attempts, 1);
+
+    await waitFor(() => deadLetters.length === 1);
+    assert.equal(attempts, 3);
+    const letters = valueOf<LetterValue[]>(await node.request('$deadletter/list'));
+    assert.equal(letters.length, 1);
+    assert.equal(letters[0]!.topic, 'orders/created');
+    assert.equal(letters[0]!.attempts, 3);
+    assert.equal(letters[0]!.error, 'handler failed');
+    await node.stop();
+  });
+
+  it('replays a dead letter to its subscription once it recovers', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    const deadLetters = await watchDeadLetters(node);
+    let failing = true;
+    const delivered: string[] = [];
+    await node.subscribe('orders/created', async (_context, payload) => {
+      if (failing) return err('handler failed');
+      delivered.push(plain<string>(payload));
+      return ok(undefined);
+    });
+
+    await node.publish('orders/created', anyValue('order-1'));
+    await waitFor(() => deadLetters.length === 1);
+    const [letter] = valueOf<LetterValue[]>(await node.request('$deadletter/list'));
+
+    failing = false;
+    const outcome = valueOf<{ replayed: string[] }>(
+      await node.request('$deadletter/replay', letter!.id)
+    );
+    assert.deepEqual(outcome.replayed, [letter!.id]);
+    assert.deepEqual(delivered, ['order-1']);
+    assert.deepEqual(valueOf<LetterValue[]>(await node.request('$deadletter/list')), []);
+    await node.stop();
+  });
+
+  it('dead-letters failed replays of retained events under the event topic', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    const deadLetters = await watchDeadLetters(node);
+    await node.publish_with_options('orders/eu/created', anyValue('order-1'), { retain: true });
+
+    const topics: string[] = [];
+    const subscribed = await node.subscribe(
+      'orders/{region}/created',
+      async (context: EventContext): Promise<Result<void, string>> => {
+        topics.push(context.topicPath.asString());
+        throw new Error('replay failed');
+      },
+      { includePast: true }
+    );
+    assert.equal(subscribed.ok, true);
+    assert.deepEqual(topics, ['test-network:orders/eu/created']);
+
+    await waitFor(() => deadLetters.length === 1);
+    const [letter] = valueOf<LetterValue[]>(await node.request('$deadletter/list'));
+    assert.equal(letter!.topic, 'orders/eu/created');
+    assert.equal(letter!.error, 'replay failed');
+    await node.stop();
+  });
+});
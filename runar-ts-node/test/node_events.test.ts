@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Node } from '../src/node';
+import type { StreamedEvent } from '../src/event_stream';
+import { anyValue, plain, testConfig } from './test_utils/nodes';
+
+describe('Node.events()', () => {
+  it('buffers events published before the first next() with their publish time', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    const orders = node.events('orders/>');
+
+    const before = Date.now();
+    await node.publish('orders/created', anyValue('order-1'));
+    const after = Date.now();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    const { value } = await orders.next();
+    assert.equal(value!.topicPath.asString(), 'test-network:orders/created');
+    assert.equal(plain<string>(value!.payload), 'order-1');
+    assert.ok(value!.timestampMs >= before && value!.timestampMs <= after);
+    await orders.return!(undefined);
+    await node.stop();
+  });
+
+  it('replays retained events first and ends when the signal aborts', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    await node.publish_with_options('orders/created', anyValue('order-1'), { retain: true });
+    const controller = new AbortController();
+
+    const received: string[] = [];
+    const loop = (async () => {
+      for await (const event of node.events('orders/created', {
+        includePast: true,
+        signal: controller.signal,
+      })) {
+        received.push(plain<string>(event.payload));
+        if (received.length === 1) await node.publish('orders/created', anyValue('order-2'));
+        if (received.length === 2) controller.abort();
+      }
+    })();
+
+    await loop;
+    assert.deepEqual(received, ['order-1', 'order-2']);
+    await node.stop();
+  });
+
+  it('replays more retained events than the buffer holds according to its overflow', async () => {
+    const node = new Node(testConfig(1).withRetentionPolicy('orders/created', { maxEvents: 10 }));
+    await node.start();
+    for (const order of ['order-1', 'order-2', 'order-3']) {
+      await node.publish_with_options('orders/created', anyValue(order), { retain: true });
+    }
+    const take = async (stream: AsyncIterator<StreamedEvent>, count: number): Promise<string[]> => {
+      const payloads: string[] = [];
+      while (payloads.length < count) {
+        payloads.push(plain<string>((await stream.next()).value!.payload));
+      }
+      return payloads;
+    };
+
+    // 'block' keeps every retained event, in order and ahead of new ones
+    const blocking = node.events('orders/created', {
+      includePast: true,
+      bufferSize: 2,
+      overflow: 'block',
+    });
+    assert.deepEqual(await take(blocking, 2), ['order-1', 'order-2']);
+    const published = node.publish('orders/created', anyValue('order-4'));
+    assert.deepEqual(await take(blocking, 2), ['order-3', 'order-4']);
+    await published;
+    await blocking.return!(undefined);
+
+    // 'drop-oldest' keeps the newest retained events that fit
+    const dropping = node.events('orders/created', { includePast: true, bufferSize: 2 });
+    assert.deepEqual(await take(dropping, 2), ['order-2', 'order-3']);
+    await dropping.return!(undefined);
+    await node.stop();
+  });
+
+  it('releases publishers blocked on a full buffer when the node stops', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    const orders = node.events('orders/created', { bufferSize: 1, overflow: 'block' });
+
+    await node.publish('orders/created', anyValue('order-1'));
+    let published = false;
+    const blocked = node.publish('orders/created', anyValue('order-2')).then(() => {
+      published = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(published, false);
+
+    await node.stop();
+    await blocked;
+    assert.equal((await orders.next()).done, true);
+  });
+});
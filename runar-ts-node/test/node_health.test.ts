@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Result, ok, err } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { LoopbackNetwork } from '../src/loopback';
+import { TransportFactory } from '../src/transport';
+import { TestService, addService, testConfig, valueOf } from './test_utils/nodes';
+
+type ComponentValue = { component: string; status: string; detail: string | null };
+type HealthValue = { status: string; components: ComponentValue[] };
+
+// Service whose healthCheck() runs the given check
+class CheckedService extends TestService {
+  constructor(
+    path: string,
+    private readonly check: () => Promise<Result<void, string>>
+  ) {
+    super(path);
+  }
+
+  healthCheck(): Promise<Result<void, string>> {
+    return this.check();
+  }
+}
+
+// Loopback transport factory reporting a peer as disconnected while reachable(peerId) is false
+function reachabilityTransportFactory(
+  network: LoopbackNetwork,
+  reachable: (peerId: string) => boolean
+): TransportFactory {
+  const transportFactory = network.transportFactory();
+  return options => {
+    const transport = transportFactory(options);
+    const isConnected = transport.isConnected.bind(transport);
+    transport.isConnected = async (peerId): Promise<boolean> =>
+      reachable(peerId) && isConnected(peerId);
+    return transport;
+  };
+}
+
+async function readiness(
+  node: Node
+): Promise<{ status: string; components: Map<string, ComponentValue> }> {
+  const report = valueOf<HealthValue>(await node.request('$health/ready'));
+  return {
+    status: report.status,
+    components: new Map(report.components.map(c => [c.component, c])),
+  };
+}
+
+describe('Node health', () => {
+  it('reports the transport ready while at least one peer is connected', async () => {
+    const network = new LoopbackNetwork();
+    const unreachable = new Set<string>();
+    const node = new Node(
+      testConfig(1, network).withTransportFactory(
+        reachabilityTransportFactory(network, peerId => !unreachable.has(peerId))
+      )
+    );
+    const peers = [new Node(testConfig(2, network)), new Node(testConfig(3, network))];
+    await node.start();
+    for (const peer of peers) await peer.start();
+
+    const ready = await readiness(node);
+    assert.equal(ready.status, 'up');
+    assert.deepEqual(ready.components.get('transport'), {
+      component: 'transport',
+      status: 'up',
+      detail: 'connected to 2 of 2 peers',
+    });
+
+    unreachable.add(peers[0]!.getNodeId()!);
+    const partial = await readiness(node);
+    assert.equal(partial.status, 'up');
+    assert.equal(partial.components.get('transport')?.detail, 'connected to 1 of 2 peers');
+
+    unreachable.add(peers[1]!.getNodeId()!);
+    const disconnected = await readiness(node);
+    assert.equal(disconnected.status, 'down');
+    assert.equal(disconnected.components.get('transport')?.status, 'down');
+    assert.equal(disconnected.components.get('transport')?.detail, 'connected to 0 of 2 peers');
+
+    for (const peer of peers) await peer.stop();
+    await node.stop();
+  });
+
+  it('reports a service whose healthCheck() fails or times out as not ready', async () => {
+    const node = new Node(testConfig(1).withHealth({ checkTimeoutMs: 20 }));
+    await addService(node, new CheckedService('ledger', async () => err('database unreachable')));
+    await addService(
+      node,
+      new CheckedService('mailer', () => new Promise<Result<void, string>>(() => {}))
+    );
+    await addService(node, new CheckedService('math', async () => ok(undefined)));
+    await node.start();
+
+    const ready = await readiness(node);
+    assert.equal(ready.status, 'down');
+    assert.deepEqual(ready.components.get('service:ledger'), {
+      component: 'service:ledger',
+      status: 'down',
+      detail: 'database unreachable',
+    });
+    assert.equal(ready.components.get('service:mailer')?.status, 'down');
+    assert.match(ready.components.get('service:mailer')!.detail!, /timed out after 20ms/);
+    assert.equal(ready.components.get('service:math')?.status, 'up');
+    await node.stop();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok, err } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { TestService, addService, anyValue, plain, testConfig, valueOf } from './test_utils/nodes';
+
+type ActionMetricsValue = {
+  requests: number;
+  errors: number;
+  latency_ms: { buckets: Array<{ le: number; count: number }>; sum: number; count: number };
+};
+type SnapshotValue = { since_ms: number; actions: Record<string, ActionMetricsValue> };
+
+// slow/wait answers after the payload's milliseconds and fails for a negative payload
+function slowService(): TestService {
+  return new TestService('slow', {
+    init: async context => {
+      await context.registerAction('wait', async payload => {
+        const delayMs = plain<number>(payload);
+        if (delayMs < 0) return err('negative delay');
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        return ok(anyValue(delayMs));
+      });
+    },
+  });
+}
+
+describe('Node metrics', () => {
+  it('records requests, errors and latency of each action in $metrics/snapshot', async () => {
+    const node = new Node(testConfig(1).withMetrics({ latencyBucketsMs: [25, 10_000] }));
+    await addService(node, slowService());
+    await node.start();
+
+    await node.request('slow/wait', 0);
+    await node.request('slow/wait', 50);
+    await node.request('slow/wait', -1);
+
+    const snapshot = valueOf<SnapshotValue>(await node.request('$metrics/snapshot'));
+    const wait = snapshot.actions['slow/wait']!;
+    assert.equal(wait.requests, 3);
+    assert.equal(wait.errors, 1);
+    assert.equal(wait.latency_ms.count, 3);
+    assert.ok(wait.latency_ms.sum >= 50);
+    assert.deepEqual(
+      wait.latency_ms.buckets.map(b => b.le),
+      [25, 10_000, Number.POSITIVE_INFINITY]
+    );
+    // Cumulative counts: the 50ms request is the only one above 25ms
+    assert.deepEqual(
+      wait.latency_ms.buckets.map(b => b.count),
+      [2, 3, 3]
+    );
+
+    assert.equal((await node.request('$metrics/reset')).ok, true);
+    const reset = valueOf<SnapshotValue>(await node.request('$metrics/snapshot'));
+    assert.equal(reset.actions['slow/wait'], undefined);
+    assert.ok(reset.since_ms >= snapshot.since_ms);
+    await node.stop();
+  });
+
+  it('serves the metrics in Prometheus text format when enabled', async () => {
+    const node = new Node(testConfig(1).withMetrics({ latencyBucketsMs: [25], prometheus: true }));
+    await addService(node, slowService());
+    await node.start();
+    await node.request('slow/wait', 0);
+    await node.request('slow/wait', -1);
+
+    const text = valueOf<string>(await node.request('$metrics/prometheus'));
+    const lines = text.split('\n');
+    assert.ok(lines.includes('# TYPE runar_requests_total counter'));
+    assert.ok(lines.includes('runar_requests_total{action="slow/wait"} 2'));
+    assert.ok(lines.includes('runar_request_errors_total{action="slow/wait"} 1'));
+    assert.ok(lines.includes('# TYPE runar_request_duration_ms histogram'));
+    assert.ok(lines.includes('runar_request_duration_ms_bucket{action="slow/wait",le="+Inf"} 2'));
+    assert.ok(lines.includes('runar_request_duration_ms_count{action="slow/wait"} 2'));
+    await node.stop();
+
+    // Without the option the action is not registered
+    const plainNode = new Node(testConfig(2));
+    await plainNode.start();
+    assert.equal((await plainNode.request('$metrics/prometheus')).ok, false);
+    await plainNode.stop();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok, err } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { LoopbackNetwork } from '../src/loopback';
+import { RequestMiddleware } from '../src/middleware';
+import { TestService, addService, anyValue, plain, testConfig, valueOf } from './test_utils/nodes';
+
+// math/double doubles its number payload
+function mathService(): TestService {
+  return new TestService('math', {
+    init: async context => {
+      await context.registerAction('double', async payload =>
+        ok(anyValue(plain<number>(payload) * 2))
+      );
+    },
+  });
+}
+
+// Records the action and payload it sees, then the result, under the given name
+function recording(name: string, calls: string[]): RequestMiddleware {
+  return async (topicPath, payload, _context, next) => {
+    calls.push(`${name} ${topicPath.actionPath()} ${plain<number>(payload)}`);
+    const result = await next();
+    calls.push(`${name} -> ${result.ok ? plain<number>(result.value) : 'failed'}`);
+    return result;
+  };
+}
+
+// Rejects payloads above the limit without calling the handler
+function limit(max: number): RequestMiddleware {
+  return async (_topicPath, payload, _context, next) =>
+    plain<number>(payload) > max ? err(`payload above ${max}`) : next();
+}
+
+describe('Node middleware', () => {
+  it('runs node and service middleware around local requests', async () => {
+    const node = new Node(testConfig(1));
+    await addService(node, mathService());
+    const calls: string[] = [];
+    const nodeMiddleware = recording('node', calls);
+    node.addMiddleware(nodeMiddleware);
+    node.addServiceMiddleware('math', async (_topicPath, payload, _context, next) =>
+      next(anyValue(plain<number>(payload) + 1))
+    );
+    node.addServiceMiddleware('math', limit(10));
+    await node.start();
+
+    assert.equal(valueOf<number>(await node.request('math/double', 2)), 6);
+    assert.deepEqual(calls, ['node math/double 2', 'node -> 6']);
+
+    const rejected = await node.request('math/double', 10);
+    assert.ok(!rejected.ok);
+    assert.match(String(rejected.error), /payload above 10/);
+
+    calls.length = 0;
+    assert.equal(node.removeMiddleware(nodeMiddleware), true);
+    assert.equal(valueOf<number>(await node.request('math/double', 2)), 6);
+    assert.deepEqual(calls, []);
+    await node.stop();
+  });
+
+  it('runs the serving node middleware for requests from peers', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network));
+    const server = new Node(testConfig(2, network));
+    await addService(server, mathService());
+    const calls: string[] = [];
+    server.addMiddleware(recording('server', calls));
+    server.addServiceMiddleware('math', limit(10));
+    await server.start();
+    await client.start();
+
+    // The request reaches the server through handleNetworkMessage
+    assert.equal(valueOf<number>(await client.request('math/double', 3)), 6);
+    assert.deepEqual(calls, ['server math/double 3', 'server -> 6']);
+
+    const rejected = await client.request('math/double', 11);
+    assert.ok(!rejected.ok);
+    assert.match(String(rejected.error), /payload above 10/);
+    assert.deepEqual(calls.slice(2), ['server math/double 11', 'server -> failed']);
+
+    await client.stop();
+    await server.stop();
+  });
+});
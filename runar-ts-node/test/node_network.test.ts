@@ -0,0 +1,246 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok, err } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { LoopbackNetwork } from '../src/loopback';
+import { NetworkMessageType } from '../src/transport';
+import { isRemoteHandlerError } from '../src/errors';
+import {
+  TestService,
+  addService,
+  anyValue,
+  flakyTransportFactory,
+  messageOnlyTransportFactory,
+  plain,
+  testConfig,
+  valueOf,
+  waitFor,
+} from './test_utils/nodes';
+
+type CircuitValue = { state: string; consecutive_failures: number };
+
+function mathService(): TestService {
+  return new TestService('math', {
+    init: async context => {
+      await context.registerAction('double', async payload => {
+        const value = payload.as<number>();
+        if (!value.ok) return err(value.error.message);
+        return ok(anyValue(value.value * 2));
+      });
+    },
+  });
+}
+
+// who/name answers with the name of the node serving it
+function whoService(name: string): TestService {
+  return new TestService('who', {
+    init: async context => {
+      await context.registerAction('name', async () => ok(anyValue(name)));
+    },
+  });
+}
+
+describe('Node over the loopback transport', () => {
+  it('routes requests to a service provided by a peer', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network));
+    const server = new Node(testConfig(2, network));
+    await addService(server, mathService());
+    await server.start();
+    await client.start();
+
+    assert.equal(valueOf<number>(await client.request('math/double', 2)), 4);
+    assert.equal(valueOf<number>(await client.remote_request('math/double', 3)), 6);
+    assert.equal((await client.local_request('math/double', 2)).ok, false);
+
+    await client.stop();
+    await server.stop();
+  });
+
+  it('forwards published events to peers with a matching subscription', async () => {
+    const network = new LoopbackNetwork();
+    const publisher = new Node(testConfig(1, network));
+    const subscriber = new Node(testConfig(2, network));
+    await publisher.start();
+    await subscriber.start();
+    const received: string[] = [];
+    await subscriber.subscribe('orders/>', async (_context, payload) => {
+      received.push(plain<string>(payload));
+      return ok(undefined);
+    });
+
+    await publisher.publish('orders/created', anyValue('order-1'));
+    await waitFor(() => received.length > 0);
+    assert.deepEqual(received, ['order-1']);
+
+    received.length = 0;
+    await publisher.publish('invoices/created', anyValue('invoice-1'));
+    await publisher.publish('orders/shipped', anyValue('order-1'));
+    await waitFor(() => received.length > 0);
+    assert.deepEqual(received, ['order-1']);
+
+    await publisher.stop();
+    await subscriber.stop();
+  });
+
+  it('stops forwarding events once the peer unsubscribes', async () => {
+    const network = new LoopbackNetwork();
+    const publisher = new Node(testConfig(1, network));
+    const subscriber = new Node(testConfig(2, network));
+    await publisher.start();
+    await subscriber.start();
+    const received: string[] = [];
+    const subscription = await subscriber.subscribe('orders/created', async (_context, payload) => {
+      received.push(plain<string>(payload));
+      return ok(undefined);
+    });
+    assert.ok(subscription.ok);
+    await publisher.publish('orders/created', anyValue('order-1'));
+    await waitFor(() => received.length === 1);
+
+    assert.equal((await subscriber.unsubscribe(subscription.value)).ok, true);
+    await publisher.publish('orders/created', anyValue('order-2'));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.deepEqual(received, ['order-1']);
+
+    await publisher.stop();
+    await subscriber.stop();
+  });
+
+  it('retries requests over a flaky link and opens the circuit when they keep failing', async () => {
+    const network = new LoopbackNetwork();
+    // Requests sent while drops remain are lost
+    let drops = 0;
+    let sent = 0;
+    const client = new Node(
+      testConfig(1, network)
+        .withRetryPolicy('math', { maxAttempts: 3, initialBackoffMs: 5, jitter: 0 })
+        .withCircuitBreakerPolicy('math', { failureThreshold: 3, openDurationMs: 60_000 })
+        .withTransportFactory(
+          flakyTransportFactory(network, messageType => {
+            if (messageType !== NetworkMessageType.Request) return false;
+            sent++;
+            return drops-- > 0;
+          })
+        )
+    );
+    const server = new Node(testConfig(2, network));
+    await addService(server, mathService());
+    await server.start();
+    await client.start();
+    const circuit = async (): Promise<CircuitValue | undefined> =>
+      valueOf<CircuitValue[]>(await client.request('$registry/circuits/list'))[0];
+
+    drops = 2;
+    assert.equal(valueOf<number>(await client.request('math/double', 2)), 4);
+    assert.equal(sent, 3);
+    const closed = await circuit();
+    assert.equal(closed?.state, 'closed');
+    assert.equal(closed?.consecutive_failures, 0);
+
+    drops = Infinity;
+    sent = 0;
+    assert.equal((await client.request('math/double', 2)).ok, false);
+    assert.equal(sent, 3);
+    assert.equal((await circuit())?.state, 'open');
+
+    // An open circuit fails the request without sending it
+    sent = 0;
+    const rejected = await client.request('math/double', 2);
+    assert.ok(!rejected.ok);
+    assert.match(String(rejected.error), /is open/);
+    assert.equal(sent, 0);
+
+    await client.stop();
+    await server.stop();
+  });
+
+  it('tells handler failures from transport failures when only error messages cross the link', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(
+      testConfig(1, network)
+        .withRetryPolicy('inventory', { maxAttempts: 3, initialBackoffMs: 5, jitter: 0 })
+        .withCircuitBreakerPolicy('inventory', { failureThreshold: 1, openDurationMs: 60_000 })
+        .withTransportFactory(messageOnlyTransportFactory(network))
+    );
+    const server = new Node(
+      testConfig(2, network).withTransportFactory(messageOnlyTransportFactory(network))
+    );
+    let calls = 0;
+    await addService(
+      server,
+      new TestService('inventory', {
+        init: async context => {
+          await context.registerAction('reserve', async () => {
+            calls++;
+            return err('out of stock');
+          });
+          await context.registerStreamingAction('levels', async function* () {
+            yield anyValue(1);
+            throw new Error('warehouse offline');
+          });
+        },
+      })
+    );
+    await server.start();
+    await client.start();
+    const circuit = async (): Promise<CircuitValue | undefined> =>
+      valueOf<CircuitValue[]>(await client.request('$registry/circuits/list'))[0];
+
+    // A handler failure is neither retried nor counted against the peer
+    const reserved = await client.request('inventory/reserve', 'sku-1');
+    assert.ok(!reserved.ok);
+    assert.match(String(reserved.error), /out of stock/);
+    assert.equal(calls, 1);
+
+    const received: number[] = [];
+    await assert.rejects(
+      async () => {
+        for await (const chunk of client.requestStream('inventory/levels', null)) {
+          received.push(plain<number>(chunk));
+        }
+      },
+      (e: unknown) => isRemoteHandlerError(e) && /warehouse offline/.test(e.message)
+    );
+    assert.deepEqual(received, [1]);
+
+    const closed = await circuit();
+    assert.equal(closed?.state, 'closed');
+    assert.equal(closed?.consecutive_failures, 0);
+
+    await client.stop();
+    await server.stop();
+  });
+
+  it("spreads requests over a service's providers with its load balancing strategy", async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network).withLoadBalancing('who', 'round-robin'));
+    const servers = [new Node(testConfig(2, network)), new Node(testConfig(3, network))];
+    for (const [index, server] of servers.entries()) {
+      await addService(server, whoService(`server-${index + 1}`));
+      await server.start();
+    }
+    await client.start();
+    const names = async (count: number, routingKey?: string): Promise<string[]> => {
+      const answers: string[] = [];
+      for (let i = 0; i < count; i++) {
+        answers.push(valueOf<string>(await client.request('who/name', null, { routingKey })));
+      }
+      return answers;
+    };
+
+    assert.deepEqual((await names(4)).sort(), ['server-1', 'server-1', 'server-2', 'server-2']);
+    const keyed = await names(3, 'customer-42');
+    assert.deepEqual(keyed, [keyed[0], keyed[0], keyed[0]]);
+
+    // Without a strategy of its own, a service with a local provider is served locally
+    const local = new Node(testConfig(4, network));
+    await addService(local, whoService('local'));
+    await local.start();
+    assert.equal(valueOf<string>(await local.request('who/name')), 'local');
+
+    await local.stop();
+    await client.stop();
+    for (const server of servers) await server.stop();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ok, err } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { NodeConfig } from '../src/config';
+import { EventContext } from '../src/events';
+import { TestService, addService, anyValue, plain, testConfig, waitFor } from './test_utils/nodes';
+
+type Delivery = { deliveryId: string; orderId: string };
+
+async function outboxDirectory(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'runar-node-outbox-'));
+}
+
+// Wait until the outbox has removed every entry from its directory
+async function drained(directory: string): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while ((await fs.readdir(directory)).length > 0) {
+    if (Date.now() > deadline) throw new Error('Outbox still holds entries');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('Node guaranteed delivery', () => {
+  it('keeps an event in the outbox and retries until the subscriber acknowledges it', async () => {
+    const directory = await outboxDirectory();
+    const node = new Node(testConfig(1).withOutbox({ directory, initialBackoffMs: 5 }));
+    await node.start();
+    const deliveries: Delivery[] = [];
+    await node.subscribe('orders/created', async (context: EventContext, payload) => {
+      deliveries.push({ deliveryId: context.deliveryId, orderId: plain<string>(payload) });
+      return deliveries.length < 3 ? err('ledger unavailable') : ok(undefined);
+    });
+
+    const published = await node.publish_with_options('orders/created', anyValue('order-1'), {
+      guaranteed_delivery: true,
+    });
+    assert.equal(published.ok, true);
+    assert.equal((await fs.readdir(directory)).length, 1);
+
+    await waitFor(() => deliveries.length === 3);
+    await drained(directory);
+    assert.deepEqual(
+      deliveries.map(d => d.orderId),
+      ['order-1', 'order-1', 'order-1']
+    );
+    // Every attempt carries the same delivery id, so subscribers can drop duplicates
+    assert.equal(new Set(deliveries.map(d => d.deliveryId)).size, 1);
+    await node.stop();
+  });
+
+  it('redelivers events a stopped node left in its outbox after the next start', async () => {
+    const directory = await outboxDirectory();
+    const config = (): NodeConfig =>
+      testConfig(1).withOutbox({ directory, initialBackoffMs: 60_000 });
+
+    const first = new Node(config());
+    await first.start();
+    let firstDeliveryId: string | undefined;
+    await first.subscribe('orders/created', async (context: EventContext) => {
+      firstDeliveryId = context.deliveryId;
+      return err('ledger unavailable');
+    });
+    await first.publish_with_options('orders/created', anyValue('order-1'), {
+      guaranteed_delivery: true,
+    });
+    await first.stop();
+    assert.equal((await fs.readdir(directory)).length, 1);
+
+    const deliveries: Delivery[] = [];
+    const second = new Node(config());
+    await addService(
+      second,
+      new TestService('ledger', {
+        init: async context => {
+          await context.subscribe('orders/created', async (eventContext, payload) => {
+            deliveries.push({
+              deliveryId: eventContext.deliveryId,
+              orderId: plain<string>(payload),
+            });
+            return ok(undefined);
+          });
+        },
+      })
+    );
+    await second.start();
+
+    await waitFor(() => deliveries.length === 1);
+    assert.deepEqual(deliveries, [{ deliveryId: firstDeliveryId, orderId: 'order-1' }]);
+    await drained(directory);
+    await second.stop();
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { LoopbackNetwork } from '../src/loopback';
+import {
+  isRateLimitExceededError,
+  isRequestCancelledError,
+  isRequestTimeoutError,
+} from '../src/errors';
+import { TestService, addService, anyValue, plain, testConfig, valueOf } from './test_utils/nodes';
+
+// slow/wait answers 'done' after the payload's milliseconds; signals holds each call's ctx.signal
+function slowService(signals: AbortSignal[]): TestService {
+  return new TestService('slow', {
+    init: async context => {
+      await context.registerAction('wait', async (payload, request) => {
+        signals.push(request.signal);
+        await new Promise(resolve => setTimeout(resolve, plain<number>(payload)));
+        return ok(anyValue('done'));
+      });
+    },
+  });
+}
+
+// orders/echo answers with the order id it was sent, prefixed with the node serving it
+function ordersService(name: string): TestService {
+  return new TestService('orders', {
+    init: async context => {
+      await context.registerAction('echo', async payload =>
+        ok(anyValue(`${name}: ${plain<string>(payload)}`))
+      );
+    },
+  });
+}
+
+describe('Node remote requests', () => {
+  it('prefers a local handler and reaches the peer only through remote_request', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network));
+    const server = new Node(testConfig(2, network));
+    await addService(client, ordersService('client'));
+    await addService(server, ordersService('server'));
+    await server.start();
+    await client.start();
+    assert.equal(valueOf<string>(await client.request('orders/echo', 'o')), 'client: o');
+    assert.equal(valueOf<string>(await client.remote_request('orders/echo', 'o')), 'server: o');
+    const missing = await client.remote_request('invoices/echo', null);
+    assert.ok(!missing.ok);
+
+    await client.stop();
+    await server.stop();
+  });
+
+  it('drops the proxies of a service the peer removes and of a peer that stops', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network));
+    const server = new Node(testConfig(2, network));
+    const backup = new Node(testConfig(3, network));
+    await addService(server, ordersService('server'));
+    await addService(
+      server,
+      new TestService('invoices', {
+        init: async context => {
+          await context.registerAction('count', async () => ok(anyValue(3)));
+        },
+      })
+    );
+    await addService(backup, ordersService('backup'));
+    await server.start();
+    await client.start();
+    assert.equal(valueOf<number>(await client.request('invoices/count')), 3);
+
+    assert.equal((await server.removeService('invoices')).ok, true);
+    assert.equal((await client.request('invoices/count')).ok, false);
+
+    await server.stop();
+    assert.equal((await client.request('orders/echo', 'o')).ok, false);
+    await backup.start();
+    assert.equal(valueOf<string>(await client.request('orders/echo', 'o')), 'backup: o');
+
+    await client.stop();
+    await backup.stop();
+  });
+});
+
+describe('Node request deadlines', () => {
+  it('fails requests that outlive the configured request timeout', async () => {
+    const signals: AbortSignal[] = [];
+    const node = new Node(testConfig(1).withRequestTimeout(30));
+    await addService(node, slowService(signals));
+    await node.start();
+
+    assert.equal(valueOf<string>(await node.request('slow/wait', 0)), 'done');
+    const timedOut = await node.request('slow/wait', 200);
+    assert.ok(!timedOut.ok);
+    assert.ok(isRequestTimeoutError(timedOut.error));
+    assert.equal(timedOut.error.timeoutMs, 30);
+    assert.equal(signals[1]?.aborted, true);
+    await node.stop();
+  });
+
+  it('lets a request override the configured timeout', async () => {
+    const node = new Node(testConfig(1).withRequestTimeout(30));
+    await addService(node, slowService([]));
+    await node.start();
+
+    assert.equal(valueOf<string>(await node.request('slow/wait', 60, { timeoutMs: 500 })), 'done');
+    const timedOut = await node.request('slow/wait', 200, { timeoutMs: 10 });
+    assert.ok(!timedOut.ok);
+    assert.ok(isRequestTimeoutError(timedOut.error));
+    assert.equal(timedOut.error.timeoutMs, 10);
+    await node.stop();
+  });
+
+  it("cancels a request when its signal aborts and aborts the handler's signal", async () => {
+    const signals: AbortSignal[] = [];
+    const node = new Node(testConfig(1));
+    await addService(node, slowService(signals));
+    await node.start();
+
+    const controller = new AbortController();
+    const pending = node.request('slow/wait', 200, { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    assert.equal(signals[0]?.aborted, false);
+    controller.abort();
+    const cancelled = await pending;
+    assert.ok(!cancelled.ok);
+    assert.ok(isRequestCancelledError(cancelled.error));
+    assert.equal(signals[0]?.aborted, true);
+
+    // A signal aborted up front fails the request without calling the handler
+    const rejected = await node.request('slow/wait', 0, { signal: AbortSignal.abort() });
+    assert.ok(!rejected.ok);
+    assert.ok(isRequestCancelledError(rejected.error));
+    assert.equal(signals.length, 1);
+    await node.stop();
+  });
+});
+
+describe('Node rate limits', () => {
+  it('fails requests over the limit of the action', async () => {
+    const node = new Node(
+      testConfig(1).withRateLimit('orders/*', { ratePerSecond: 0.1, burst: 2 })
+    );
+    await addService(node, ordersService('node'));
+    await node.start();
+
+    assert.equal(valueOf<string>(await node.request('orders/echo', 'o-1')), 'node: o-1');
+    assert.equal(valueOf<string>(await node.request('orders/echo', 'o-2')), 'node: o-2');
+    const limited = await node.request('orders/echo', 'o-3');
+    assert.ok(!limited.ok);
+    assert.ok(isRateLimitExceededError(limited.error));
+    assert.equal(limited.error.pattern, 'orders/*');
+    await node.stop();
+  });
+
+  it('keeps a separate limit for each peer calling the node', async () => {
+    const network = new LoopbackNetwork();
+    const server = new Node(
+      testConfig(1, network).withRateLimit('orders/echo', {
+        ratePerSecond: 0.1,
+        burst: 1,
+        keyBy: 'peer',
+      })
+    );
+    const first = new Node(testConfig(2, network));
+    const second = new Node(testConfig(3, network));
+    await addService(server, ordersService('server'));
+    for (const node of [server, first, second]) await node.start();
+
+    assert.equal(valueOf<string>(await first.request('orders/echo', 'o-1')), 'server: o-1');
+    const limited = await first.request('orders/echo', 'o-2');
+    assert.ok(!limited.ok);
+    assert.match(String(limited.error), /Rate limit exceeded for orders\/echo .*caller peer:/);
+    assert.equal(valueOf<string>(await second.request('orders/echo', 'o-3')), 'server: o-3');
+    // Requests made on the node itself are a caller of their own
+    assert.equal(valueOf<string>(await server.request('orders/echo', 'o-4')), 'server: o-4');
+
+    for (const node of [first, second, server]) await node.stop();
+  });
+});
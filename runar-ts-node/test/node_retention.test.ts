@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ok } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { FileRetainedEventStore, InMemoryRetainedEventStore } from '../src/retained_store';
+import { anyValue, plain, testConfig } from './test_utils/nodes';
+
+// Topics of the price events held by the store ($registry state events are retained too)
+async function storedPrices(store: InMemoryRetainedEventStore): Promise<string[]> {
+  return (await store.load()).map(e => e.topic).filter(topic => topic.includes(':prices/'));
+}
+
+// Payloads replayed to a new includePast subscription of the pattern
+async function replayed(node: Node, pattern: string): Promise<string[]> {
+  const payloads: string[] = [];
+  const subscribed = await node.subscribe(
+    pattern,
+    async (_context, payload) => {
+      payloads.push(plain<string>(payload));
+      return ok(undefined);
+    },
+    { includePast: true }
+  );
+  assert.ok(subscribed.ok);
+  await node.unsubscribe(subscribed.value);
+  return payloads;
+}
+
+describe('Node retained events', () => {
+  it('replays a retain_for event until it expires and the sweeper drops it', async () => {
+    const store = new InMemoryRetainedEventStore();
+    const node = new Node(
+      testConfig(1).withRetainedEventStore(store).withRetentionSweepInterval(10)
+    );
+    await node.start();
+
+    await node.publish_with_options('prices/eur', anyValue('1.10'), { retain: true });
+    await node.publish_with_options('prices/usd', anyValue('0.91'), {
+      retain_for: { as_millis: () => 40 },
+    });
+    assert.deepEqual((await replayed(node, 'prices/*')).sort(), ['0.91', '1.10']);
+    assert.equal((await storedPrices(store)).length, 2);
+
+    const deadline = Date.now() + 2000;
+    while ((await storedPrices(store)).length > 1) {
+      if (Date.now() > deadline) throw new Error('Sweeper did not expire the event');
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.deepEqual(await storedPrices(store), ['test-network:prices/eur']);
+    assert.deepEqual(await replayed(node, 'prices/*'), ['1.10']);
+    await node.stop();
+  });
+
+  it('replays the retained events of a previous node sharing the store file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runar-node-retained-'));
+    const storePath = path.join(dir, 'retained.cbor');
+
+    const first = new Node(
+      testConfig(1).withRetainedEventStore(new FileRetainedEventStore(storePath))
+    );
+    await first.start();
+    await first.publish_with_options('prices/eur', anyValue('1.10'), { retain: true });
+    await first.publish_with_options('prices/eur', anyValue('1.12'), { retain: true });
+    await first.publish_with_options('prices/usd', anyValue('0.91'), {
+      retain_for: { as_millis: () => 60_000 },
+    });
+    await first.stop();
+
+    const second = new Node(
+      testConfig(1).withRetainedEventStore(new FileRetainedEventStore(storePath))
+    );
+    await second.start();
+    assert.deepEqual(await replayed(second, 'prices/eur'), ['1.10', '1.12']);
+    assert.deepEqual(await replayed(second, 'prices/usd'), ['0.91']);
+    await second.stop();
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok, err } from 'runar-ts-common';
+import { EventContext } from '../src/events';
+import { Node } from '../src/node';
+import { LoopbackNetwork } from '../src/loopback';
+import { NodeLifecycleContext, ServiceState } from '../src/service';
+import {
+  TestService,
+  addService,
+  TestServiceHooks,
+  anyValue,
+  plain,
+  testConfig,
+  valueOf,
+  waitFor,
+} from './test_utils/nodes';
+
+// math/double doubles its number payload
+function mathService(hooks: TestServiceHooks = {}): TestService {
+  return new TestService('math', {
+    ...hooks,
+    init: async context => {
+      await context.registerAction('double', async payload => {
+        const value = payload.as<number>();
+        if (!value.ok) return err(value.error.message);
+        return ok(anyValue(value.value * 2));
+      });
+      return hooks.init?.(context);
+    },
+  });
+}
+
+type StateChangeValue = { service_path: string; old_state: string; new_state: string };
+
+describe('Node service start', () => {
+  it('reports the services of a dependency cycle as failed and starts the others', async () => {
+    const node = new Node(testConfig(1));
+    await addService(node, new TestService('orders', { dependencies: ['billing'] }));
+    await addService(node, new TestService('billing', { dependencies: ['orders'] }));
+    await addService(node, mathService());
+
+    const report = await node.start();
+    assert.ok(report.started.includes('math'));
+    assert.deepEqual(report.failed.map(f => f.servicePath).sort(), ['billing', 'orders']);
+    assert.match(report.failed[0]!.error, /cycle/i);
+    assert.equal(valueOf<number>(await node.request('math/double', 2)), 4);
+    await node.stop();
+  });
+
+  it('reports services whose init or start fails, marks them Error and starts the others', async () => {
+    const node = new Node(testConfig(1));
+    await addService(node, new TestService('ledger', { init: async () => err('no database') }));
+    await addService(node, new TestService('mailer', { start: async () => err('smtp refused') }));
+    await addService(node, mathService());
+
+    const report = await node.start();
+    assert.ok(report.started.includes('math'));
+    assert.ok(!report.started.includes('ledger') && !report.started.includes('mailer'));
+    const failures = Object.fromEntries(report.failed.map(f => [f.servicePath, f.error]));
+    assert.deepEqual(Object.keys(failures).sort(), ['ledger', 'mailer']);
+    assert.match(failures.ledger!, /no database/);
+    assert.match(failures.mailer!, /smtp refused/);
+
+    // The last state_changed event retained for each service gives its state
+    const states = new Map<string, string>();
+    await node.subscribe(
+      '$registry/services/{service_path}/state_changed',
+      async (_context, payload) => {
+        const change = plain<StateChangeValue>(payload);
+        states.set(change.service_path, change.new_state);
+        return ok(undefined);
+      },
+      { includePast: true }
+    );
+    await waitFor(
+      () =>
+        states.get('ledger') === ServiceState.Error && states.get('mailer') === ServiceState.Error
+    );
+    assert.equal(states.get('math'), ServiceState.Running);
+    assert.equal(valueOf<number>(await node.request('math/double', 2)), 4);
+    await node.stop();
+  });
+});
+
+describe('Node service pausing', () => {
+  it('rejects requests to a service paused through $registry until it resumes', async () => {
+    const node = new Node(testConfig(1));
+    const hooks: string[] = [];
+    await addService(
+      node,
+      mathService({
+        pause: async () => {
+          hooks.push('pause');
+        },
+      })
+    );
+    await node.start();
+
+    assert.equal((await node.request('$registry/services/math/pause')).ok, true);
+    assert.deepEqual(hooks, ['pause']);
+    const rejected = await node.request('math/double', 2);
+    assert.ok(!rejected.ok);
+    assert.match(String(rejected.error), /paused/);
+
+    assert.equal((await node.request('$registry/services/math/resume')).ok, true);
+    assert.equal(valueOf<number>(await node.request('math/double', 2)), 4);
+    await node.stop();
+  });
+
+  it('queues requests to a paused service and handles them on resume', async () => {
+    const node = new Node(testConfig(1).withPausePolicy('math', { whilePaused: 'queue' }));
+    await addService(node, mathService());
+    await node.start();
+    assert.equal((await node.pauseService('math')).ok, true);
+
+    let answered = false;
+    const queued = node.request('math/double', 3).then(result => {
+      answered = true;
+      return result;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(answered, false);
+
+    assert.equal((await node.resumeService('math')).ok, true);
+    assert.equal(valueOf<number>(await queued), 6);
+    await node.stop();
+  });
+});
+
+describe('Node services at runtime', () => {
+  it('starts a service added to a running node and announces it to peers', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network));
+    const server = new Node(testConfig(2, network));
+    await server.start();
+    await client.start();
+    assert.equal((await client.request('math/double', 2)).ok, false);
+
+    assert.equal((await server.addService(mathService())).ok, true);
+    const duplicate = await server.addService(mathService());
+    assert.ok(!duplicate.ok);
+    assert.match(String(duplicate.error), /already registered/);
+    assert.equal(valueOf<number>(await server.request('math/double', 2)), 4);
+    assert.equal(valueOf<number>(await client.request('math/double', 3)), 6);
+
+    await client.stop();
+    await server.stop();
+  });
+
+  it('stops a removed service and drops its actions, subscriptions and middleware', async () => {
+    const node = new Node(testConfig(1));
+    const hooks: string[] = [];
+    const received: string[] = [];
+    const service = (): TestService =>
+      mathService({
+        init: async context => {
+          await context.subscribe('orders/created', async (_context, payload) => {
+            received.push(plain<string>(payload));
+            return ok(undefined);
+          });
+        },
+        stop: async () => {
+          hooks.push('stop');
+        },
+      });
+    await addService(node, service());
+    node.addServiceMiddleware('math', async () => err('blocked by middleware'));
+    await node.start();
+    assert.equal((await node.request('math/double', 2)).ok, false);
+
+    assert.equal((await node.removeService('math')).ok, true);
+    assert.deepEqual(hooks, ['stop']);
+    assert.equal((await node.request('math/double', 2)).ok, false);
+    await node.publish('orders/created', anyValue('order-1'));
+    assert.deepEqual(received, []);
+
+    // Added again, the service starts without the middleware registered for the old one
+    assert.equal((await node.addService(service())).ok, true);
+    assert.equal(valueOf<number>(await node.request('math/double', 2)), 4);
+    await node.publish('orders/created', anyValue('order-2'));
+    assert.deepEqual(received, ['order-2']);
+    await node.stop();
+  });
+});
+
+describe('Node service state events', () => {
+  it('publishes retained state_changed events for service transitions', async () => {
+    const node = new Node(testConfig(1));
+    await addService(node, mathService());
+    await node.start();
+    const changes: string[] = [];
+    await node.subscribe(
+      '$registry/services/{service_path}/state_changed',
+      async (context: EventContext, payload) => {
+        const change = plain<StateChangeValue>(payload);
+        assert.equal(change.service_path, context.pathParams.get('service_path'));
+        if (change.service_path === 'math') {
+          changes.push(`${change.old_state} -> ${change.new_state}`);
+        }
+        return ok(undefined);
+      }
+    );
+
+    await node.pauseService('math');
+    await node.resumeService('math');
+    // Transitions of the node's start may still be on their way
+    await waitFor(() => changes.at(-1) === 'Paused -> Running');
+    assert.deepEqual(changes.slice(-2), ['Running -> Paused', 'Paused -> Running']);
+
+    // A late subscriber gets the last transition of the service
+    const replayed: StateChangeValue[] = [];
+    await node.subscribe(
+      '$registry/services/math/state_changed',
+      async (_context, payload) => {
+        replayed.push(plain<StateChangeValue>(payload));
+        return ok(undefined);
+      },
+      { includePast: true }
+    );
+    assert.equal(replayed.at(-1)?.new_state, 'Running');
+    await node.stop();
+  });
+});
+
+describe('Node service actions', () => {
+  it('stops routing an unregistered action, locally and from peers', async () => {
+    const network = new LoopbackNetwork();
+    const client = new Node(testConfig(1, network));
+    const server = new Node(testConfig(2, network));
+    let serviceContext: NodeLifecycleContext | undefined;
+    await addService(
+      server,
+      mathService({
+        init: async context => {
+          serviceContext = context;
+        },
+      })
+    );
+    await server.start();
+    await client.start();
+    assert.equal(valueOf<number>(await client.request('math/double', 2)), 4);
+
+    assert.equal((await serviceContext!.unregisterAction('double')).ok, true);
+    assert.equal((await server.request('math/double', 2)).ok, false);
+    assert.equal((await client.request('math/double', 2)).ok, false);
+    assert.equal((await serviceContext!.unregisterAction('double')).ok, false);
+
+    await client.stop();
+    await server.stop();
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { err } from 'runar-ts-common';
+import type { AnyValue } from 'runar-ts-serializer';
+import { Node } from '../src/node';
+import { LoopbackNetwork } from '../src/loopback';
+import { NetworkMessageType } from '../src/transport';
+import { isRequestTimeoutError } from '../src/errors';
+import {
+  TestService,
+  addService,
+  anyValue,
+  flakyTransportFactory,
+  plain,
+  testConfig,
+  valueOf,
+} from './test_utils/nodes';
+
+type ActionMetricsValue = { requests: number; errors: number };
+type CircuitValue = { peer_id: string; state: string; consecutive_failures: number };
+
+// numbers/count yields 1..payload
+function numbersService(): TestService {
+  return new TestService('numbers', {
+    init: async context => {
+      await context.registerStreamingAction('count', async function* (payload) {
+        for (let i = 1; i <= plain<number>(payload); i++) yield anyValue(i);
+      });
+    },
+  });
+}
+
+async function collect(stream: AsyncIterable<AnyValue>): Promise<number[]> {
+  const chunks: number[] = [];
+  for await (const chunk of stream) chunks.push(plain<number>(chunk));
+  return chunks;
+}
+
+describe('Node.requestStream()', () => {
+  it('opens local streams through the middleware and records them in $metrics', async () => {
+    const node = new Node(testConfig(1));
+    await addService(node, numbersService());
+    node.addMiddleware(async (topicPath, payload, _context, next) => {
+      if (topicPath.servicePath() !== 'numbers') return next();
+      const count = plain<number>(payload);
+      return count > 3 ? err('too many numbers') : next(anyValue(count + 1));
+    });
+    await node.start();
+
+    assert.deepEqual(await collect(node.requestStream('numbers/count', 2)), [1, 2, 3]);
+    await assert.rejects(collect(node.requestStream('numbers/count', 4)), /too many numbers/);
+
+    const snapshot = valueOf<{ actions: Record<string, ActionMetricsValue> }>(
+      await node.request('$metrics/snapshot')
+    );
+    assert.equal(snapshot.actions['numbers/count']?.requests, 2);
+    assert.equal(snapshot.actions['numbers/count']?.errors, 1);
+    await node.stop();
+  });
+
+  it('fails when the next chunk takes longer than the request timeout', async () => {
+    const node = new Node(testConfig(1));
+    let handlerSignal: AbortSignal | undefined;
+    await addService(
+      node,
+      new TestService('sensor', {
+        init: async context => {
+          await context.registerStreamingAction('readings', async function* (_payload, request) {
+            handlerSignal = request.signal;
+            yield anyValue(1);
+            await new Promise(resolve => request.signal.addEventListener('abort', resolve));
+          });
+        },
+      })
+    );
+    await node.start();
+
+    const received: number[] = [];
+    await assert.rejects(async () => {
+      for await (const chunk of node.requestStream('sensor/readings', null, { timeoutMs: 50 })) {
+        received.push(plain<number>(chunk));
+      }
+    }, isRequestTimeoutError);
+    assert.deepEqual(received, [1]);
+    assert.equal(handlerSignal?.aborted, true);
+    await node.stop();
+  });
+
+  it('holds streams to a paused service until it resumes', async () => {
+    const node = new Node(testConfig(1).withPausePolicy('numbers', { whilePaused: 'queue' }));
+    await addService(node, numbersService());
+    await node.start();
+    assert.equal((await node.pauseService('numbers')).ok, true);
+
+    let chunks: number[] | undefined;
+    const pending = collect(node.requestStream('numbers/count', 2)).then(c => (chunks = c));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(chunks, undefined);
+
+    assert.equal((await node.resumeService('numbers')).ok, true);
+    await pending;
+    assert.deepEqual(chunks, [1, 2]);
+    await node.stop();
+  });
+
+  it("streams from a peer and counts transport failures in the peer's circuit breaker", async () => {
+    const network = new LoopbackNetwork();
+    const serverConfig = testConfig(2, network);
+    // Stream pulls fail while the link is down; opening the stream still works
+    let linkDown = false;
+    const clientConfig = testConfig(1, network)
+      .withCircuitBreakerPolicy('numbers', { failureThreshold: 1, openDurationMs: 60_000 })
+      .withTransportFactory(
+        flakyTransportFactory(
+          network,
+          messageType => linkDown && messageType === NetworkMessageType.StreamPull
+        )
+      );
+    const server = new Node(serverConfig);
+    const client = new Node(clientConfig);
+    await addService(server, numbersService());
+    await server.start();
+    await client.start();
+    const circuits = async (): Promise<CircuitValue[]> =>
+      valueOf<CircuitValue[]>(await client.request('$registry/circuits/list'));
+
+    assert.deepEqual(await collect(client.requestStream('numbers/count', 3)), [1, 2, 3]);
+    const [closed] = await circuits();
+    assert.equal(closed!.state, 'closed');
+
+    linkDown = true;
+    await assert.rejects(collect(client.requestStream('numbers/count', 3)), /link down/);
+    const [open] = await circuits();
+    assert.equal(open!.state, 'open');
+    assert.equal(open!.consecutive_failures, 1);
+    await assert.rejects(collect(client.requestStream('numbers/count', 3)), /No stream handler/);
+
+    await client.stop();
+    await server.stop();
+  });
+});
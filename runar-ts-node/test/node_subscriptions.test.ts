@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok } from 'runar-ts-common';
+import { Node } from '../src/node';
+import { EventContext } from '../src/events';
+import { anyValue, testConfig } from './test_utils/nodes';
+
+describe('Node subscriptions', () => {
+  it('delivers events to exact, wildcard and template subscriptions', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    const received: string[] = [];
+    const subscribe = async (pattern: string): Promise<string> => {
+      const subscribed = await node.subscribe(pattern, async (context: EventContext) => {
+        received.push(`${pattern} <- ${context.topicPath.asString()}`);
+        return ok(undefined);
+      });
+      assert.ok(subscribed.ok);
+      return subscribed.value;
+    };
+    await subscribe('orders/eu/created');
+    await subscribe('orders/*/created');
+    const multiLevel = await subscribe('orders/>');
+
+    await node.publish('orders/eu/created', anyValue('order-1'));
+    await node.publish('orders/eu/shipped', anyValue('order-1'));
+    await node.publish('invoices/eu/created', anyValue('invoice-1'));
+    assert.deepEqual(received.sort(), [
+      'orders/*/created <- test-network:orders/eu/created',
+      'orders/> <- test-network:orders/eu/created',
+      'orders/> <- test-network:orders/eu/shipped',
+      'orders/eu/created <- test-network:orders/eu/created',
+    ]);
+
+    received.length = 0;
+    assert.equal((await node.unsubscribe(multiLevel)).ok, true);
+    await node.publish('orders/us/created', anyValue('order-2'));
+    assert.deepEqual(received, ['orders/*/created <- test-network:orders/us/created']);
+    await node.stop();
+  });
+
+  it('binds the template segments of a subscription to path params', async () => {
+    const node = new Node(testConfig(1));
+    await node.start();
+    const params: Array<Record<string, string>> = [];
+    await node.subscribe('orders/{region}/{status}', async (context: EventContext) => {
+      params.push(Object.fromEntries(context.pathParams));
+      return ok(undefined);
+    });
+
+    await node.publish('orders/eu/created', anyValue('order-1'));
+    await node.publish('orders/us/shipped', anyValue('order-2'));
+    await node.publish('orders/eu/created/late', anyValue('order-3'));
+    assert.deepEqual(params, [
+      { region: 'eu', status: 'created' },
+      { region: 'us', status: 'shipped' },
+    ]);
+    await node.stop();
+  });
+});
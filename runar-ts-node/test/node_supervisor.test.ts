@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ok, err } from 'runar-ts-common';
+import { Node } from '../src/node';
+import {
+  TestService,
+  addService,
+  anyValue,
+  plain,
+  testConfig,
+  valueOf,
+  waitFor,
+} from './test_utils/nodes';
+
+type RestartEventValue = { service_path: string; kind: string; attempt: number; reason: string };
+
+// Records the restart events of every service from its init, before the others start
+function restartWatcher(events: RestartEventValue[]): TestService {
+  return new TestService('watcher', {
+    init: async context => {
+      await context.subscribe(
+        '$registry/services/{service_path}/restart',
+        async (_context, payload) => {
+          events.push(plain<RestartEventValue>(payload));
+          return ok(undefined);
+        }
+      );
+    },
+  });
+}
+
+describe('Node supervisor', () => {
+  it('restarts a service that failed to start with stop, init and start', async () => {
+    const hooks: string[] = [];
+    const events: RestartEventValue[] = [];
+    const node = new Node(
+      testConfig(1).withRestartPolicy('ledger', { strategy: 'on-failure', initialBackoffMs: 5 })
+    );
+    await addService(node, restartWatcher(events));
+    await addService(
+      node,
+      new TestService('ledger', {
+        init: async context => {
+          hooks.push('init');
+          await context.registerAction('balance', async () => ok(anyValue(42)));
+        },
+        start: async () => {
+          hooks.push('start');
+          // Only the first start fails
+          return hooks.length === 2 ? err('database not ready') : undefined;
+        },
+        stop: async () => {
+          hooks.push('stop');
+        },
+      })
+    );
+
+    const report = await node.start();
+    assert.deepEqual(
+      report.failed.map(f => f.servicePath),
+      ['ledger']
+    );
+
+    await waitFor(() => events.some(e => e.kind === 'restarted'));
+    assert.deepEqual(hooks, ['init', 'start', 'stop', 'init', 'start']);
+    assert.deepEqual(
+      events.map(e => `${e.service_path} ${e.kind} ${e.attempt}`),
+      ['ledger scheduled 1', 'ledger restarted 1']
+    );
+    assert.match(events[0]!.reason, /database not ready/);
+    assert.equal(valueOf<number>(await node.request('ledger/balance')), 42);
+    await node.stop();
+  });
+
+  it('restarts a service once its handlers throw the threshold number of times in a row', async () => {
+    const hooks: string[] = [];
+    const events: RestartEventValue[] = [];
+    const node = new Node(
+      testConfig(1).withRestartPolicy('ledger', {
+        strategy: 'on-failure',
+        initialBackoffMs: 5,
+        handlerFailureThreshold: 2,
+      })
+    );
+    await addService(node, restartWatcher(events));
+    await addService(
+      node,
+      new TestService('ledger', {
+        init: async context => {
+          hooks.push('init');
+          await context.registerAction('balance', async payload => {
+            if (plain<boolean>(payload)) throw new Error('connection reset');
+            return ok(anyValue(42));
+          });
+        },
+        stop: async () => {
+          hooks.push('stop');
+        },
+      })
+    );
+    await node.start();
+
+    // A successful call resets the count of consecutive failures
+    assert.equal((await node.request('ledger/balance', true)).ok, false);
+    assert.equal(valueOf<number>(await node.request('ledger/balance', false)), 42);
+    assert.equal((await node.request('ledger/balance', true)).ok, false);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.equal(events.length, 0);
+
+    assert.equal((await node.request('ledger/balance', true)).ok, false);
+    await waitFor(() => events.some(e => e.kind === 'restarted'));
+    assert.match(events[0]!.reason, /2 consecutive handler failures: connection reset/);
+    assert.deepEqual(hooks, ['init', 'stop', 'init']);
+    await node.stop();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { Outbox, OutboxDeliver, OutboxEntry } from '../src/outbox';
+
+async function tempDir(): Promise<string> {
+  return fs.mkdtemp(path.join(os.tmpdir(), 'runar-outbox-'));
+}
+
+function entry(deliveryId: string): OutboxEntry {
+  return {
+    deliveryId,
+    topic: 'net:math/added',
+    payload: new Uint8Array([1, 2, 3]),
+    createdAtMs: Date.now(),
+    attempts: 0,
+    ackedBy: [],
+  };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('Outbox', () => {
+  it('removes the entry once every subscriber acknowledges it', async () => {
+    const directory = await tempDir();
+    const outbox = new Outbox({ directory }, async () => ({ acked: ['local:a'], pending: [] }));
+    await outbox.start();
+
+    await outbox.enqueue(entry('d1'));
+
+    assert.deepEqual(await fs.readdir(directory), []);
+    assert.equal(outbox.pendingCount(), 0);
+    outbox.stop();
+  });
+
+  it('retries only the subscribers that have not acknowledged yet', async () => {
+    const directory = await tempDir();
+    const seen: string[][] = [];
+    const deliver: OutboxDeliver = async current => {
+      seen.push([...current.ackedBy]);
+      return seen.length < 3
+        ? { acked: ['local:a'], pending: ['peer:b'] }
+        : { acked: ['peer:b'], pending: [] };
+    };
+    const outbox = new Outbox({ directory, initialBackoffMs: 5 }, deliver);
+    await outbox.start();
+
+    await outbox.enqueue(entry('d2'));
+    await waitFor(() => outbox.pendingCount() === 0);
+
+    assert.equal(seen.length, 3);
+    assert.deepEqual(seen[1], ['local:a']);
+    assert.deepEqual(await fs.readdir(directory), []);
+    outbox.stop();
+  });
+
+  it('resumes pending deliveries after a restart', async () => {
+    const directory = await tempDir();
+    const first = new Outbox({ directory, initialBackoffMs: 60_000 }, async () => ({
+      acked: [],
+      pending: ['local:a'],
+    }));
+    await first.start();
+    await first.enqueue(entry('d3'));
+    first.stop();
+    assert.deepEqual(await fs.readdir(directory), ['d3.cbor']);
+
+    const delivered: OutboxEntry[] = [];
+    const second = new Outbox({ directory }, async current => {
+      delivered.push(current);
+      return { acked: ['local:a'], pending: [] };
+    });
+    await second.start();
+    await waitFor(() => delivered.length === 1 && second.pendingCount() === 0);
+
+    assert.equal(delivered[0]!.deliveryId, 'd3');
+    assert.equal(delivered[0]!.attempts, 2);
+    assert.deepEqual([...delivered[0]!.payload], [1, 2, 3]);
+    await waitFor(() => second.pendingCount() === 0);
+    assert.deepEqual(await fs.readdir(directory), []);
+    second.stop();
+  });
+
+  it('abandons an entry after maxAttempts', async () => {
+    const directory = await tempDir();
+    let attempts = 0;
+    const outbox = new Outbox({ directory, initialBackoffMs: 1, maxAttempts: 2 }, async () => {
+      attempts++;
+      throw new Error('subscriber unavailable');
+    });
+    await outbox.start();
+
+    await outbox.enqueue(entry('d4'));
+    await waitFor(() => outbox.pendingCount() === 0);
+
+    assert.equal(attempts, 2);
+    assert.deepEqual(await fs.readdir(directory), []);
+    outbox.stop();
+  });
+
+  it('retries an entry whose file could not be updated', async () => {
+    const directory = await tempDir();
+    let attempts = 0;
+    const outbox = new Outbox({ directory, initialBackoffMs: 5 }, async () => {
+      attempts++;
+      if (attempts === 1) {
+        // Saving the pending entry after this attempt fails
+        await fs.rm(directory, { recursive: true });
+        return { acked: [], pending: ['local:a'] };
+      }
+      await fs.mkdir(directory, { recursive: true });
+      return { acked: ['local:a'], pending: [] };
+    });
+    await outbox.start();
+
+    await outbox.enqueue(entry('d5'));
+    await waitFor(() => attempts === 2 && outbox.pendingCount() === 0);
+
+    assert.deepEqual(await fs.readdir(directory), []);
+    outbox.stop();
+  });
+
+  it('accepts new entries after open and delivers persisted ones on resume', async () => {
+    const directory = await tempDir();
+    const first = new Outbox({ directory, initialBackoffMs: 60_000 }, async () => ({
+      acked: [],
+      pending: ['local:a'],
+    }));
+    await first.start();
+    await first.enqueue(entry('d6'));
+    first.stop();
+
+    const delivered: string[] = [];
+    const second = new Outbox({ directory }, async current => {
+      delivered.push(current.deliveryId);
+      return { acked: ['local:a'], pending: [] };
+    });
+    await second.open();
+    await second.enqueue(entry('d7'));
+    assert.deepEqual(delivered, ['d7']);
+
+    second.resume();
+    await waitFor(() => delivered.length === 2 && second.pendingCount() === 0);
+    assert.deepEqual(delivered, ['d7', 'd6']);
+    second.stop();
+  });
+});
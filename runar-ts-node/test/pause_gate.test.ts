@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PauseGate } from '../src/pause_gate';
+import { isServicePausedError } from '../src/errors';
+
+describe('PauseGate', () => {
+  it('lets requests through for services that are not paused', async () => {
+    const gate = new PauseGate({ whilePaused: 'reject' }, new Map());
+
+    assert.ok((await gate.admit('math', new AbortController().signal)).ok);
+  });
+
+  it('rejects requests while paused with the reject policy', async () => {
+    const gate = new PauseGate({ whilePaused: 'reject' }, new Map());
+    gate.pause('math');
+
+    const result = await gate.admit('math', new AbortController().signal);
+
+    assert.ok(!result.ok && isServicePausedError(result.error));
+    gate.resume('math');
+    assert.ok((await gate.admit('math', new AbortController().signal)).ok);
+  });
+
+  it('queues requests until resume and rejects once the queue is full', async () => {
+    const gate = new PauseGate(
+      { whilePaused: 'reject' },
+      new Map([['math', { whilePaused: 'queue' as const, maxQueuedRequests: 2 }]])
+    );
+    gate.pause('math');
+    const order: number[] = [];
+
+    const admitInOrder = (n: number): Promise<boolean> =>
+      gate.admit('math', new AbortController().signal).then(r => {
+        order.push(n);
+        return r.ok;
+      });
+    const first = admitInOrder(1);
+    const second = admitInOrder(2);
+    const third = await gate.admit('math', new AbortController().signal);
+
+    assert.ok(!third.ok && isServicePausedError(third.error));
+    assert.match(third.error.message, /queue is full \(2\)/);
+    assert.equal(gate.queuedCount('math'), 2);
+
+    gate.resume('math');
+    assert.ok(await first);
+    assert.ok(await second);
+    assert.deepEqual(order, [1, 2]);
+  });
+
+  it('drops queued requests that abort and fails the rest on close', async () => {
+    const gate = new PauseGate({ whilePaused: 'queue' }, new Map());
+    gate.pause('math');
+    const controller = new AbortController();
+
+    const aborted = gate.admit('math', controller.signal);
+    const pending = gate.admit('math', new AbortController().signal);
+    controller.abort(new Error('caller gave up'));
+
+    const abortedResult = await aborted;
+    assert.ok(!abortedResult.ok);
+    assert.equal(gate.queuedCount('math'), 1);
+
+    gate.close('math', 'service stopped');
+    const pendingResult = await pending;
+    assert.ok(!pendingResult.ok);
+    assert.equal(gate.isPaused('math'), false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TopicPath } from 'runar-ts-common';
+import { ActionRateLimit, RateLimiter } from '../src/rate_limit';
+import { isRateLimitExceededError } from '../src/errors';
+
+function topic(path: string): TopicPath {
+  const result = TopicPath.new(path, 'net');
+  assert.ok(result.ok);
+  return result.value;
+}
+
+function limiter(limits: ActionRateLimit[]): {
+  limiter: RateLimiter;
+  advance: (ms: number) => void;
+} {
+  let now = 0;
+  return {
+    limiter: new RateLimiter('net', limits, () => now),
+    advance: ms => {
+      now += ms;
+    },
+  };
+}
+
+describe('RateLimiter', () => {
+  it('admits requests for actions without a limit', () => {
+    const { limiter: l } = limiter([{ pattern: 'orders/create', limit: { maxConcurrent: 1 } }]);
+
+    assert.ok(l.acquire(topic('math/add')).ok);
+    assert.ok(l.acquire(topic('math/add')).ok);
+  });
+
+  it('refills the token bucket over time', () => {
+    const { limiter: l, advance } = limiter([
+      { pattern: 'math/add', limit: { ratePerSecond: 2, burst: 2 } },
+    ]);
+
+    assert.ok(l.acquire(topic('math/add')).ok);
+    assert.ok(l.acquire(topic('math/add')).ok);
+    const rejected = l.acquire(topic('math/add'));
+    assert.ok(!rejected.ok);
+    assert.ok(isRateLimitExceededError(rejected.error));
+
+    advance(500);
+    assert.ok(l.acquire(topic('math/add')).ok);
+    assert.ok(!l.acquire(topic('math/add')).ok);
+  });
+
+  it('limits concurrent requests until they are released', () => {
+    const { limiter: l } = limiter([{ pattern: 'reports/*', limit: { maxConcurrent: 1 } }]);
+
+    const first = l.acquire(topic('reports/monthly'));
+    assert.ok(first.ok);
+    assert.ok(!l.acquire(topic('reports/daily')).ok);
+
+    first.value();
+    first.value();
+    assert.ok(l.acquire(topic('reports/daily')).ok);
+    assert.ok(!l.acquire(topic('reports/daily')).ok);
+  });
+
+  it('keeps separate limits per peer or profile key', () => {
+    const { limiter: l } = limiter([
+      { pattern: 'orders/{id}', limit: { ratePerSecond: 1, keyBy: 'peer' } },
+      { pattern: 'users/>', limit: { ratePerSecond: 1, keyBy: 'profile' } },
+    ]);
+
+    assert.ok(l.acquire(topic('orders/1'), { peerId: 'peer-a' }).ok);
+    assert.ok(!l.acquire(topic('orders/2'), { peerId: 'peer-a' }).ok);
+    assert.ok(l.acquire(topic('orders/1'), { peerId: 'peer-b' }).ok);
+    assert.ok(l.acquire(topic('orders/1')).ok);
+
+    const alice = { peerId: 'peer-a', profilePublicKeys: [new Uint8Array([1])] };
+    const bob = { peerId: 'peer-a', profilePublicKeys: [new Uint8Array([2])] };
+    assert.ok(l.acquire(topic('users/profile/get'), alice).ok);
+    assert.ok(!l.acquire(topic('users/profile/get'), alice).ok);
+    assert.ok(l.acquire(topic('users/profile/get'), bob).ok);
+  });
+
+  it('applies the first registered limit when several patterns match', () => {
+    const { limiter: l } = limiter([
+      { pattern: 'orders/*', limit: { maxConcurrent: 1 } },
+      { pattern: 'orders/create', limit: { maxConcurrent: 5 } },
+    ]);
+
+    assert.ok(l.acquire(topic('orders/create')).ok);
+    const rejected = l.acquire(topic('orders/create'));
+    assert.ok(!rejected.ok && isRateLimitExceededError(rejected.error));
+    assert.equal(rejected.error.pattern, 'orders/*');
+  });
+});
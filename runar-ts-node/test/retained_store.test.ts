@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  FileRetainedEventStore,
+  InMemoryRetainedEventStore,
+  RetainedEventStore,
+  StoredRetainedEvent,
+} from '../src/retained_store';
+
+function event(topic: string, timestampMs: number, expiresAtMs?: number): StoredRetainedEvent {
+  return { topic, timestampMs, expiresAtMs, payload: new Uint8Array([timestampMs % 256]) };
+}
+
+async function tempFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runar-retained-'));
+  return path.join(dir, 'retained.log');
+}
+
+async function exercise(store: RetainedEventStore): Promise<StoredRetainedEvent[]> {
+  await store.append(event('net:math/added', 1));
+  await store.append(event('net:math/added', 2));
+  await store.append(event('net:math/added', 3));
+  await store.trim('net:math/added', 2);
+  await store.append(event('net:math/removed', 4, 100));
+  await store.append(event('net:echo/ping', 5));
+  await store.expire(100);
+  await store.remove('net:echo/ping');
+  return store.load();
+}
+
+describe('RetainedEventStore', () => {
+  it('applies trim, expire and remove in memory', async () => {
+    const events = await exercise(new InMemoryRetainedEventStore());
+
+    assert.deepEqual(
+      events.map(e => e.timestampMs),
+      [2, 3]
+    );
+  });
+
+  it('replays the append log after a restart', async () => {
+    const file = await tempFile();
+    await exercise(new FileRetainedEventStore(file));
+
+    const reopened = new FileRetainedEventStore(file);
+    const events = await reopened.load();
+
+    assert.deepEqual(
+      events.map(e => [e.topic, e.timestampMs, [...e.payload]]),
+      [
+        ['net:math/added', 2, [2]],
+        ['net:math/added', 3, [3]],
+      ]
+    );
+  });
+
+  it('compacts the log on load and keeps appending after it', async () => {
+    const file = await tempFile();
+    const store = new FileRetainedEventStore(file);
+    await store.load();
+    for (const ts of [1, 2, 3]) {
+      await store.append(event('net:math/added', ts));
+    }
+    await store.trim('net:math/added', 2);
+    const sizeBefore = (await fs.stat(file)).size;
+
+    await store.load();
+    assert.ok((await fs.stat(file)).size < sizeBefore);
+
+    await store.append(event('net:math/added', 6));
+    const events = await new FileRetainedEventStore(file).load();
+    assert.deepEqual(
+      events.map(e => e.timestampMs),
+      [2, 3, 6]
+    );
+  });
+
+  it('ignores a partial record at the end of the log', async () => {
+    const file = await tempFile();
+    const store = new FileRetainedEventStore(file);
+    await store.load();
+    await store.append(event('net:math/added', 1));
+    await fs.appendFile(file, new Uint8Array([0, 0, 0, 50, 1, 2]));
+
+    const events = await new FileRetainedEventStore(file).load();
+    assert.deepEqual(
+      events.map(e => e.timestampMs),
+      [1]
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TopicPath } from 'runar-ts-common';
+import { RetentionPolicies, DEFAULT_MAX_RETAINED_EVENTS } from '../src/retention';
+
+function topic(path: string): TopicPath {
+  const result = TopicPath.new(path, 'net');
+  assert.ok(result.ok);
+  return result.value;
+}
+
+describe('RetentionPolicies', () => {
+  it('falls back to the default policy and the default event cap', () => {
+    const policies = new RetentionPolicies('net', { maxAgeMs: 1000 }, []);
+
+    assert.deepEqual(policies.policyFor(topic('math/added')), {
+      maxAgeMs: 1000,
+      maxEvents: DEFAULT_MAX_RETAINED_EVENTS,
+    });
+  });
+
+  it('resolves wildcard and template policies, first registered wins', () => {
+    const policies = new RetentionPolicies('net', { maxAgeMs: 1000 }, [
+      { pattern: 'orders/{id}/status', policy: { maxEvents: 1 } },
+      { pattern: 'orders/>', policy: { maxAgeMs: 50, maxEvents: 10 } },
+    ]);
+
+    assert.deepEqual(policies.policyFor(topic('orders/42/status')), {
+      maxAgeMs: 1000,
+      maxEvents: 1,
+    });
+    assert.deepEqual(policies.policyFor(topic('orders/42/created')), {
+      maxAgeMs: 50,
+      maxEvents: 10,
+    });
+    assert.equal(policies.policyFor(topic('math/added')).maxEvents, DEFAULT_MAX_RETAINED_EVENTS);
+  });
+
+  it('lets a per-publish TTL override the topic policy', () => {
+    const policies = new RetentionPolicies('net', {}, [
+      { pattern: 'math/*', policy: { maxAgeMs: 100 } },
+    ]);
+
+    assert.equal(policies.expiresAt(topic('math/added'), 1000), 1100);
+    assert.equal(policies.expiresAt(topic('math/added'), 1000, 5), 1005);
+    assert.equal(policies.expiresAt(topic('echo/ping'), 1000), undefined);
+  });
+
+  it('rejects invalid patterns', () => {
+    assert.throws(() => new RetentionPolicies('net', {}, [{ pattern: 'a/>/b', policy: {} }]));
+  });
+});
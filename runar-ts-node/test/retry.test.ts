@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { err, ok, Result } from 'runar-ts-common';
+import { retryDelayMs, withRetries } from '../src/retry';
+
+describe('withRetries', () => {
+  it('computes capped exponential delays reduced by jitter', () => {
+    const policy = { maxAttempts: 5, initialBackoffMs: 10, maxBackoffMs: 30, jitter: 0.5 };
+
+    assert.deepEqual(
+      [1, 2, 3].map(retry => retryDelayMs(policy, retry, () => 0)),
+      [10, 20, 30]
+    );
+    assert.equal(
+      retryDelayMs(policy, 2, () => 1),
+      10
+    );
+  });
+
+  it('retries retryable errors until an attempt succeeds', async () => {
+    const attempts: number[] = [];
+    const result = await withRetries(
+      { maxAttempts: 3, initialBackoffMs: 1 },
+      new AbortController().signal,
+      async (attempt): Promise<Result<string, string>> => {
+        attempts.push(attempt);
+        return attempt < 3 ? err('connection reset') : ok('done');
+      },
+      () => true
+    );
+
+    assert.ok(result.ok);
+    assert.deepEqual(attempts, [1, 2, 3]);
+  });
+
+  it('stops at errors that are not retryable and after maxAttempts', async () => {
+    let calls = 0;
+    const handlerError = await withRetries(
+      { maxAttempts: 3, initialBackoffMs: 1 },
+      new AbortController().signal,
+      async (): Promise<Result<string, string>> => {
+        calls++;
+        return err('handler failed');
+      },
+      () => false
+    );
+    assert.ok(!handlerError.ok);
+    assert.equal(calls, 1);
+
+    calls = 0;
+    await withRetries(
+      { maxAttempts: 2, initialBackoffMs: 1 },
+      new AbortController().signal,
+      async (): Promise<Result<string, string>> => {
+        calls++;
+        return err('connection reset');
+      },
+      () => true
+    );
+    assert.equal(calls, 2);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const pending = withRetries(
+      { maxAttempts: 5, initialBackoffMs: 10_000, jitter: 0 },
+      controller.signal,
+      async (): Promise<Result<string, string>> => {
+        calls++;
+        return err('connection reset');
+      },
+      () => true
+    );
+    controller.abort();
+
+    assert.ok(!(await pending).ok);
+    assert.equal(calls, 1);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ServiceDependencyGraph } from '../src/service_graph';
+import { ServiceDependencyCycleError } from '../src/errors';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('ServiceDependencyGraph', () => {
+  it('detects dependency cycles', async () => {
+    const graph = new ServiceDependencyGraph([
+      { path: 'a', dependencies: ['b'] },
+      { path: 'b', dependencies: ['c'] },
+      { path: 'c', dependencies: ['a'] },
+      { path: 'd', dependencies: [] },
+    ]);
+
+    assert.deepEqual(graph.findCycle(), ['a', 'b', 'c', 'a']);
+    await assert.rejects(
+      graph.run(async () => true),
+      (error: unknown) =>
+        error instanceof ServiceDependencyCycleError &&
+        error.message === 'Service dependency cycle: a -> b -> c -> a'
+    );
+  });
+
+  it('runs dependencies first and independent services in parallel', async () => {
+    const graph = new ServiceDependencyGraph([
+      { path: 'api', dependencies: ['db', 'cache'] },
+      { path: 'db', dependencies: [] },
+      { path: 'cache', dependencies: [] },
+    ]);
+    const events: string[] = [];
+
+    const results = await graph.run(async path => {
+      events.push(`start ${path}`);
+      await delay(10);
+      events.push(`end ${path}`);
+      return true;
+    });
+
+    assert.deepEqual(events.slice(0, 2).sort(), ['start cache', 'start db']);
+    assert.deepEqual(events.slice(-2), ['start api', 'end api']);
+    assert.deepEqual([...results.values()], [true, true, true]);
+  });
+
+  it('reports failed and missing dependencies to the dependent task', async () => {
+    const graph = new ServiceDependencyGraph([
+      { path: 'db', dependencies: [] },
+      { path: 'api', dependencies: ['db'] },
+      { path: 'worker', dependencies: ['queue'] },
+    ]);
+    const failedByPath = new Map<string, string[]>();
+
+    const results = await graph.run(async (path, failed) => {
+      failedByPath.set(path, failed);
+      if (path === 'db') throw new Error('connection refused');
+      return failed.length === 0;
+    });
+
+    assert.deepEqual(failedByPath.get('api'), ['db']);
+    assert.deepEqual(failedByPath.get('worker'), ['queue']);
+    assert.equal(results.get('db'), false);
+    assert.equal(results.get('api'), false);
+  });
+
+  it('runs dependents first in reverse order', async () => {
+    const graph = new ServiceDependencyGraph([
+      { path: 'db', dependencies: [] },
+      { path: 'api', dependencies: ['db'] },
+      { path: 'gateway', dependencies: ['api'] },
+    ]);
+    const order: string[] = [];
+
+    await graph.run(async path => {
+      order.push(path);
+      return true;
+    }, true);
+
+    assert.deepEqual(order, ['gateway', 'api', 'db']);
+  });
+});
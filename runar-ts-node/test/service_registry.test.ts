@@ -1,7 +1,12 @@
 import { describe, it } from 'node:test';
 import assert from 'node:assert/strict';
-import { ServiceRegistry } from '../dist/index.js';
-import { TopicPath } from 'runar-ts-common';
+import { ServiceRegistry } from '../src/registry';
+import { ServiceState } from '../src/service';
+import { EventSubscriber } from '../src/events';
+import { TopicPath, ok } from 'runar-ts-common';
+import { TestService } from './test_utils/nodes';
+
+const noop: EventSubscriber = async () => ok(undefined);
 
 describe('ServiceRegistry subscriptions', () => {
   it('subscribe and unsubscribe', () => {
@@ -15,14 +20,7 @@ describe('ServiceRegistry subscriptions', () => {
     if (topicResult.ok && serviceTopicResult.ok) {
       const topic = topicResult.value;
       const serviceTopic = serviceTopicResult.value;
-      const subscriber = () => {};
-      const id = registry.subscribe(
-        topic,
-        serviceTopic,
-        subscriber,
-        { path: topic.asString() },
-        'Local'
-      );
+      const id = registry.subscribe(topic, serviceTopic, noop, { path: topic.asString() }, 'Local');
       const handlers = registry.getSubscribers(topic);
       assert.equal(handlers.length, 1);
       assert.equal(handlers[0]?.id, id);
@@ -47,9 +45,8 @@ describe('ServiceRegistry subscriptions', () => {
       const wc1 = wc1Result.value;
       const wc2 = wc2Result.value;
       const serviceTopic = serviceTopicResult.value;
-      const cb = () => {};
-      const id1 = registry.subscribe(wc1, serviceTopic, cb, { path: wc1.asString() }, 'Local');
-      const id2 = registry.subscribe(wc2, serviceTopic, cb, { path: wc2.asString() }, 'Local');
+      const id1 = registry.subscribe(wc1, serviceTopic, noop, { path: wc1.asString() }, 'Local');
+      const id2 = registry.subscribe(wc2, serviceTopic, noop, { path: wc2.asString() }, 'Local');
       const h1 = registry.getSubscribers(wc1);
       const h2 = registry.getSubscribers(wc2);
       assert.equal(h1.length, 1);
@@ -62,4 +59,261 @@ describe('ServiceRegistry subscriptions', () => {
       registry.unsubscribe(id1);
     }
   });
+
+  it('finds wildcard and template subscribers for a published topic once each', () => {
+    const registry = new ServiceRegistry();
+    const serviceTopicResult = TopicPath.newService('net1', 'svc');
+    const exactResult = TopicPath.new('net1:math/added', 'net1');
+    const singleResult = TopicPath.new('net1:math/*', 'net1');
+    const multiResult = TopicPath.new('net1:math/>', 'net1');
+    const templateResult = TopicPath.new('net1:math/{event}', 'net1');
+
+    assert.equal(serviceTopicResult.ok, true);
+    assert.equal(exactResult.ok, true);
+    assert.equal(singleResult.ok, true);
+    assert.equal(multiResult.ok, true);
+    assert.equal(templateResult.ok, true);
+
+    if (
+      serviceTopicResult.ok &&
+      exactResult.ok &&
+      singleResult.ok &&
+      multiResult.ok &&
+      templateResult.ok
+    ) {
+      const serviceTopic = serviceTopicResult.value;
+      const ids = [exactResult, singleResult, multiResult, templateResult].map(r =>
+        registry.subscribe(r.value, serviceTopic, noop, { path: r.value.asString() }, 'Local')
+      );
+
+      const matches = registry.findSubscribers(exactResult.value);
+      assert.deepEqual(matches.map(m => m.id).sort(), [...ids].sort());
+
+      const template = matches.find(m => m.id === ids[3]);
+      assert.equal(template?.params.get('event'), 'added');
+
+      // Subscribing to the exact topic after a wildcard must not copy the wildcard entries
+      assert.equal(registry.getSubscribers(exactResult.value).length, 1);
+
+      const other = TopicPath.new('net1:math/sub/removed', 'net1');
+      assert.equal(other.ok, true);
+      if (other.ok) {
+        assert.deepEqual(
+          registry.findSubscribers(other.value).map(m => m.id),
+          [ids[2]]
+        );
+      }
+    }
+  });
+
+  it('lists distinct subscription topics by subscriber kind', () => {
+    const registry = new ServiceRegistry();
+    const localResult = TopicPath.new('net1:math/added', 'net1');
+    const remoteResult = TopicPath.new('net1:math/>', 'net1');
+
+    assert.equal(localResult.ok, true);
+    assert.equal(remoteResult.ok, true);
+
+    if (localResult.ok && remoteResult.ok) {
+      const local = localResult.value;
+      const remote = remoteResult.value;
+      registry.subscribe(local, local, noop, { path: local.asString() }, 'Local');
+      registry.subscribe(local, local, noop, { path: local.asString() }, 'Local');
+      registry.subscribe(remote, remote, noop, { path: remote.asString() }, 'Remote');
+
+      assert.deepEqual(
+        registry.getSubscriptionTopics('Local').map(t => t.asString()),
+        ['net1:math/added']
+      );
+      assert.deepEqual(
+        registry.getSubscriptionTopics('Remote').map(t => t.asString()),
+        ['net1:math/>']
+      );
+    }
+  });
+});
+
+describe('ServiceRegistry remote subscriptions', () => {
+  it('matches remote subscriptions with their kind next to local ones', () => {
+    const registry = new ServiceRegistry();
+    const local = TopicPath.new('net1:orders/created', 'net1');
+    const remote = TopicPath.new('net1:orders/{event}', 'net1');
+    const published = TopicPath.new('net1:orders/created', 'net1');
+    assert.ok(local.ok && remote.ok && published.ok);
+
+    const localId = registry.subscribe(local.value, local.value, noop, { path: 'orders/created' });
+    const remoteId = registry.subscribe(
+      remote.value,
+      remote.value,
+      noop,
+      { path: 'orders/{event}' },
+      'Remote'
+    );
+
+    const matches = registry.findSubscribers(published.value);
+    assert.deepEqual(
+      matches.map(m => [m.id, m.kind]).sort(),
+      [
+        [localId, 'Local'],
+        [remoteId, 'Remote'],
+      ].sort()
+    );
+    assert.equal(matches.find(m => m.kind === 'Remote')?.params.get('event'), 'created');
+
+    // Dropping the peer's subscription leaves the local one in place
+    assert.equal(registry.unsubscribe(remoteId), true);
+    assert.deepEqual(
+      registry.findSubscribers(published.value).map(m => m.id),
+      [localId]
+    );
+    assert.deepEqual(registry.getSubscriptionTopics('Remote'), []);
+  });
+});
+
+describe('ServiceRegistry service removal', () => {
+  it('removes the action handlers and subscriptions of a service', () => {
+    const registry = new ServiceRegistry();
+    const mathResult = TopicPath.newService('net1', 'math');
+    const echoResult = TopicPath.newService('net1', 'echo');
+    const addResult = TopicPath.new('net1:math/add', 'net1');
+    const itemResult = TopicPath.new('net1:math/items/{id}', 'net1');
+    const pingResult = TopicPath.new('net1:echo/ping', 'net1');
+    const eventResult = TopicPath.new('net1:orders/created', 'net1');
+
+    assert.ok(mathResult.ok && echoResult.ok && addResult.ok && itemResult.ok);
+    assert.ok(pingResult.ok && eventResult.ok);
+
+    const handler = async () => ({ ok: true, value: undefined }) as never;
+    registry.addLocalActionHandler(addResult.value, handler);
+    registry.addLocalActionHandler(itemResult.value, handler);
+    registry.addLocalActionHandler(pingResult.value, handler);
+    const event = eventResult.value;
+    const owned = registry.subscribe(event, mathResult.value, noop, { path: 'orders/created' });
+    const other = registry.subscribe(event, echoResult.value, noop, { path: 'orders/created' });
+
+    assert.deepEqual(registry.getServiceSubscriptionIds(mathResult.value), [owned]);
+    assert.equal(registry.removeServiceActionHandlers(mathResult.value), 2);
+    assert.deepEqual(registry.unsubscribeService(mathResult.value), [owned]);
+
+    const item = TopicPath.new('net1:math/items/7', 'net1');
+    assert.ok(item.ok);
+    assert.equal(registry.findLocalActionHandlers(addResult.value).length, 0);
+    assert.equal(registry.findLocalActionHandlers(item.value).length, 0);
+    assert.equal(registry.findLocalActionHandlers(pingResult.value).length, 1);
+    assert.deepEqual(
+      registry.getSubscribers(event).map(e => e.id),
+      [other]
+    );
+    assert.equal(registry.removeServiceActionHandlers(mathResult.value), 0);
+  });
+  it('lists and removes single action handlers by service topic', () => {
+    const registry = new ServiceRegistry();
+    const mathResult = TopicPath.newService('net1', 'math');
+    const addResult = TopicPath.new('net1:math/add', 'net1');
+    const subResult = TopicPath.new('net1:math/sub', 'net1');
+    assert.ok(mathResult.ok && addResult.ok && subResult.ok);
+
+    const handler = async () => ({ ok: true, value: undefined }) as never;
+    registry.addLocalActionHandler(addResult.value, handler);
+    registry.addLocalActionHandler(subResult.value, handler);
+
+    assert.deepEqual(
+      registry.getServiceActionTopics(mathResult.value).map(t => t.asString()),
+      ['net1:math/add', 'net1:math/sub']
+    );
+    assert.equal(registry.removeLocalActionHandler(addResult.value), true);
+    assert.equal(registry.removeLocalActionHandler(addResult.value), false);
+    assert.equal(registry.findLocalActionHandlers(addResult.value).length, 0);
+    assert.equal(registry.findLocalActionHandlers(subResult.value).length, 1);
+    assert.deepEqual(
+      registry.getServiceActionTopics(mathResult.value).map(t => t.asString()),
+      ['net1:math/sub']
+    );
+  });
+});
+
+describe('ServiceRegistry action removal', () => {
+  it('removes template and streaming actions by their registered topic', () => {
+    const registry = new ServiceRegistry();
+    const math = TopicPath.newService('net1', 'math');
+    const item = TopicPath.new('net1:math/items/{id}', 'net1');
+    const count = TopicPath.new('net1:math/count', 'net1');
+    const requested = TopicPath.new('net1:math/items/7', 'net1');
+    assert.ok(math.ok && item.ok && count.ok && requested.ok);
+
+    registry.addLocalActionHandler(
+      item.value,
+      async () => ({ ok: true, value: undefined }) as never
+    );
+    registry.addLocalStreamHandler(count.value, async function* () {});
+    assert.deepEqual(
+      registry.getServiceActionTopics(math.value).map(t => t.asString()),
+      ['net1:math/items/{id}', 'net1:math/count']
+    );
+
+    // A concrete path is not a registered topic
+    assert.equal(registry.removeLocalActionHandler(requested.value), false);
+    assert.equal(registry.removeLocalActionHandler(item.value), true);
+    assert.equal(registry.findLocalActionHandlers(requested.value).length, 0);
+    assert.equal(registry.removeLocalActionHandler(count.value), true);
+    assert.equal(registry.findLocalStreamHandlers(count.value).length, 0);
+    assert.deepEqual(registry.getServiceActionTopics(math.value), []);
+    assert.equal(registry.removeServiceActionHandlers(math.value), 0);
+  });
+});
+
+describe('ServiceRegistry state changes', () => {
+  it('notifies listeners of every transition with the error reason', () => {
+    const registry = new ServiceRegistry();
+    const serviceTopic = TopicPath.newService('net1', 'math');
+    assert.ok(serviceTopic.ok);
+    registry.addLocalService({
+      service: new TestService('math'),
+      serviceTopic: serviceTopic.value,
+      serviceState: ServiceState.Created,
+      registrationTime: 0,
+    });
+    const changes: unknown[] = [];
+    const off = registry.onServiceStateChange(change =>
+      changes.push([change.oldState, change.newState, change.error])
+    );
+
+    registry.updateServiceState('math', ServiceState.Running);
+    registry.updateServiceState('math', ServiceState.Running);
+    registry.updateServiceState('math', ServiceState.Error, 'init failed');
+    registry.updateServiceState('math', ServiceState.Error, 'start failed');
+    off();
+    registry.updateServiceState('math', ServiceState.Stopped);
+
+    assert.deepEqual(changes, [
+      ['Created', 'Running', undefined],
+      ['Running', 'Error', 'init failed'],
+      ['Error', 'Error', 'start failed'],
+    ]);
+  });
+
+  it('keeps notifying other listeners when one throws and ignores unknown services', () => {
+    const registry = new ServiceRegistry();
+    const serviceTopic = TopicPath.newService('net1', 'math');
+    assert.ok(serviceTopic.ok);
+    registry.addLocalService({
+      service: new TestService('math'),
+      serviceTopic: serviceTopic.value,
+      serviceState: ServiceState.Created,
+      registrationTime: 0,
+    });
+    const changes: string[] = [];
+    registry.onServiceStateChange(() => {
+      throw new Error('listener failed');
+    });
+    registry.onServiceStateChange(change =>
+      changes.push(`${change.servicePath}:${change.newState}`)
+    );
+
+    registry.updateServiceState('math', ServiceState.Running);
+    registry.updateServiceState('echo', ServiceState.Running);
+
+    assert.deepEqual(changes, ['math:Running']);
+    assert.equal(registry.getLocalServiceState(serviceTopic.value), ServiceState.Running);
+  });
 });
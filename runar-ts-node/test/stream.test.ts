@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AnyValue } from 'runar-ts-serializer';
+import { isRequestCancelledError } from '../src/errors';
+import {
+  StreamSessions,
+  decodeStreamFrame,
+  encodeStreamFrame,
+  iterateWithSignal,
+} from '../src/stream';
+
+// Chunks are plain numbers; the stub serializer writes them as one byte
+const serialize = (value: AnyValue): Uint8Array => Uint8Array.of(value as unknown as number);
+
+function numbers(count: number, produced: number[] = []): AsyncGenerator<AnyValue> {
+  return (async function* () {
+    for (let i = 1; i <= count; i++) {
+      produced.push(i);
+      yield i as unknown as AnyValue;
+    }
+  })();
+}
+
+function open(sessions: StreamSessions, source: AsyncIterable<AnyValue>): AbortController {
+  const controller = new AbortController();
+  sessions.open('peer-a', 'c1', 'net:math/count', source, serialize, controller);
+  return controller;
+}
+
+describe('iterateWithSignal', () => {
+  it('only advances the source as chunks are consumed', async () => {
+    const produced: number[] = [];
+    const iterator = iterateWithSignal(numbers(5, produced), new AbortController().signal, 'p');
+
+    assert.deepEqual((await iterator.next()).value, 1);
+    assert.deepEqual(produced, [1]);
+    await iterator.return(undefined);
+    assert.deepEqual(produced, [1]);
+  });
+
+  it('ends with a RequestCancelledError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const never = (async function* (): AsyncGenerator<number> {
+      yield 1;
+      await new Promise(() => undefined);
+    })();
+    const received: number[] = [];
+
+    await assert.rejects(
+      (async (): Promise<void> => {
+        for await (const value of iterateWithSignal(never, controller.signal, 'net:math/count')) {
+          received.push(value);
+          setImmediate(() => controller.abort());
+        }
+      })(),
+      isRequestCancelledError
+    );
+    assert.deepEqual(received, [1]);
+  });
+});
+
+describe('StreamSessions', () => {
+  it('pulls chunks in batches until the handler completes', async () => {
+    const sessions = new StreamSessions();
+    open(sessions, numbers(3));
+
+    const first = await sessions.pull('peer-a', 'c1', 2);
+    assert.deepEqual(first, { chunks: [Uint8Array.of(1), Uint8Array.of(2)], done: false });
+    const second = await sessions.pull('peer-a', 'c1', 2);
+    assert.deepEqual(second, { chunks: [Uint8Array.of(3)], done: true });
+    const after = await sessions.pull('peer-a', 'c1', 2);
+    assert.equal(after.done, true);
+    assert.match(after.error ?? '', /Unknown stream/);
+  });
+
+  it('reports handler failures after the chunks produced before them', async () => {
+    const sessions = new StreamSessions();
+    open(
+      sessions,
+      (async function* () {
+        yield 7 as unknown as AnyValue;
+        throw new Error('disk full');
+      })()
+    );
+
+    const frame = await sessions.pull('peer-a', 'c1', 4);
+    assert.deepEqual(frame, { chunks: [Uint8Array.of(7)], done: true, error: 'disk full' });
+  });
+
+  it('aborts the handler when the caller cancels or disconnects', async () => {
+    const sessions = new StreamSessions();
+    const cancelled = open(sessions, numbers(3));
+    sessions.cancel('peer-a', 'c1');
+    assert.equal(cancelled.signal.aborted, true);
+
+    const disconnected = open(sessions, numbers(3));
+    sessions.closePeer('peer-b');
+    assert.equal(disconnected.signal.aborted, false);
+    sessions.closePeer('peer-a');
+    assert.equal(disconnected.signal.aborted, true);
+  });
+
+  it('closes streams that are not pulled within the idle timeout', async () => {
+    let released = false;
+    const sessions = new StreamSessions(10);
+    const controller = new AbortController();
+    sessions.open('peer-a', 'c1', 'net:math/count', numbers(3), serialize, controller, () => {
+      released = true;
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal(controller.signal.aborted, true);
+    assert.equal(released, true);
+  });
+
+  it('round-trips frames through CBOR', () => {
+    const frame = { chunks: [Uint8Array.of(1, 2)], done: false };
+    assert.deepEqual(decodeStreamFrame(encodeStreamFrame(frame)), frame);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { err, ok } from 'runar-ts-common';
+import { RestartEvent, RestartPolicy, Supervisor } from '../src/supervisor';
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+function supervisor(
+  policy: RestartPolicy,
+  restart: (servicePath: string) => boolean
+): { supervisor: Supervisor; events: RestartEvent[] } {
+  const events: RestartEvent[] = [];
+  const instance = new Supervisor(policy, new Map(), {
+    restart: async servicePath => (restart(servicePath) ? ok(undefined) : err('still broken')),
+    publish: async event => {
+      events.push(event);
+    },
+  });
+  instance.start();
+  return { supervisor: instance, events };
+}
+
+describe('Supervisor', () => {
+  it('does not restart services with the never policy', async () => {
+    let restarts = 0;
+    const { supervisor: s, events } = supervisor({ strategy: 'never' }, () => ++restarts > 0);
+
+    s.reportFailure('math', 'init failed');
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    assert.equal(restarts, 0);
+    assert.deepEqual(events, []);
+    s.stop();
+  });
+
+  it('restarts on failure with exponential backoff until maxRetries', async () => {
+    const { supervisor: s, events } = supervisor(
+      { strategy: 'on-failure', maxRetries: 3, initialBackoffMs: 2 },
+      () => false
+    );
+
+    s.reportFailure('math', 'init failed');
+    await waitFor(() => events.some(e => e.kind === 'gave_up'));
+
+    const scheduled = events.filter(e => e.kind === 'scheduled');
+    assert.deepEqual(
+      scheduled.map(e => e.delayMs),
+      [2, 4, 8]
+    );
+    assert.equal(events.filter(e => e.kind === 'failed').length, 3);
+    assert.equal(events.at(-1)!.attempt, 3);
+    s.stop();
+  });
+
+  it('keeps restarting with the always policy and reports success', async () => {
+    let restarts = 0;
+    const { supervisor: s, events } = supervisor(
+      { strategy: 'always', maxRetries: 1, initialBackoffMs: 1, maxBackoffMs: 2 },
+      () => ++restarts === 4
+    );
+
+    s.reportFailure('math', 'start failed');
+    await waitFor(() => events.some(e => e.kind === 'restarted'));
+
+    assert.equal(restarts, 4);
+    assert.deepEqual(
+      events.filter(e => e.kind === 'scheduled').map(e => e.delayMs),
+      [1, 2, 2, 2]
+    );
+    s.stop();
+  });
+
+  it('treats repeated handler failures as a service failure', async () => {
+    const restarted: string[] = [];
+    const { supervisor: s } = supervisor(
+      { strategy: 'on-failure', initialBackoffMs: 1, handlerFailureThreshold: 2 },
+      servicePath => restarted.push(servicePath) > 0
+    );
+
+    s.reportHandlerFailure('math', 'boom');
+    s.reportHandlerSuccess('math');
+    s.reportHandlerFailure('math', 'boom');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    assert.deepEqual(restarted, []);
+
+    s.reportHandlerFailure('math', 'boom');
+    await waitFor(() => restarted.length === 1);
+    s.stop();
+  });
+
+  it('cancels scheduled restarts on stop', async () => {
+    let restarts = 0;
+    const { supervisor: s } = supervisor({ strategy: 'always', initialBackoffMs: 10 }, () => {
+      restarts++;
+      return true;
+    });
+
+    s.reportFailure('math', 'init failed');
+    s.stop();
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    assert.equal(restarts, 0);
+  });
+});
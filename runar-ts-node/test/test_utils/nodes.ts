@@ -0,0 +1,171 @@
+import type { Keys } from 'runar-nodejs-api';
+import { Result, ok } from 'runar-ts-common';
+import { AnyValue } from 'runar-ts-serializer';
+import { NodeConfig } from '../../src/config';
+import { LoopbackNetwork } from '../../src/loopback';
+import { Node } from '../../src/node';
+import { AbstractService, NodeLifecycleContext } from '../../src/service';
+import { NetworkMessageType, TransportFactory } from '../../src/transport';
+
+/**
+ * Stand-in for the native keystore: a fixed node key per seed, and envelopes that
+ * carry the data unencrypted
+ */
+export function stubKeys(seed: number): Keys {
+  return {
+    nodeGetPublicKey: () => Buffer.alloc(32, seed),
+    nodeEncryptWithEnvelope: (data: Buffer) => data,
+    nodeDecryptEnvelope: (data: Buffer) => data,
+    nodeGetKeystoreState: () => 1,
+    ensureSymmetricKey: (keyName: string) => Buffer.from(keyName),
+  } as unknown as Keys;
+}
+
+/**
+ * Config for a node with a stub keystore; with a network, the node joins it through
+ * the loopback transport and discovery
+ */
+export function testConfig(seed: number, network?: LoopbackNetwork): NodeConfig {
+  const config = new NodeConfig('test-network', { labelMappings: new Map() }).withKeyManager(
+    stubKeys(seed)
+  );
+  if (!network) return config;
+  return config
+    .withNetworkConfig({})
+    .withTransportFactory(network.transportFactory())
+    .withDiscoveryFactory(network.discoveryFactory());
+}
+
+/**
+ * Loopback transport factory for a link that drops requests and stream frames while
+ * isDown(messageType) is true; the sender sees the failure as a transport error
+ */
+export function flakyTransportFactory(
+  network: LoopbackNetwork,
+  isDown: (messageType: NetworkMessageType) => boolean
+): TransportFactory {
+  const transportFactory = network.transportFactory();
+  return options => {
+    const transport = transportFactory(options);
+    const request = transport.request.bind(transport);
+    const streamFrame = transport.streamFrame!.bind(transport);
+    transport.request = async (...args): Promise<Uint8Array> => {
+      if (isDown(NetworkMessageType.Request)) throw new Error('link down');
+      return request(...args);
+    };
+    transport.streamFrame = async (messageType, ...rest): Promise<Uint8Array> => {
+      if (isDown(messageType)) throw new Error('link down');
+      return streamFrame(messageType, ...rest);
+    };
+    return transport;
+  };
+}
+
+/**
+ * Loopback transport factory that, like a real network, only carries the message of a
+ * failure: every rejection reaches the sender as a plain Error
+ */
+export function messageOnlyTransportFactory(network: LoopbackNetwork): TransportFactory {
+  const transportFactory = network.transportFactory();
+  const plainError = (e: unknown): Error => new Error(e instanceof Error ? e.message : String(e));
+  return options => {
+    const transport = transportFactory(options);
+    const request = transport.request.bind(transport);
+    const streamFrame = transport.streamFrame!.bind(transport);
+    transport.request = (...args): Promise<Uint8Array> =>
+      request(...args).catch(e => Promise.reject(plainError(e)));
+    transport.streamFrame = (...args): Promise<Uint8Array> =>
+      streamFrame(...args).catch(e => Promise.reject(plainError(e)));
+    return transport;
+  };
+}
+
+export interface TestServiceHooks {
+  init?(context: NodeLifecycleContext): Promise<Result<void, string> | void>;
+  start?(context: NodeLifecycleContext): Promise<Result<void, string> | void>;
+  stop?(context: NodeLifecycleContext): Promise<Result<void, string> | void>;
+  pause?(context: NodeLifecycleContext): Promise<Result<void, string> | void>;
+  dependencies?: string[];
+}
+
+// Service running the given hooks; a hook without a result succeeds
+export class TestService implements AbstractService {
+  private _networkId?: string;
+
+  constructor(
+    private readonly servicePath: string,
+    private readonly hooks: TestServiceHooks = {}
+  ) {}
+
+  name(): string {
+    return `Test ${this.servicePath}`;
+  }
+  version(): string {
+    return '1.0.0';
+  }
+  path(): string {
+    return this.servicePath;
+  }
+  description(): string {
+    return 'Service used by the node tests';
+  }
+  networkId(): string | undefined {
+    return this._networkId;
+  }
+  setNetworkId(networkId: string): void {
+    this._networkId = networkId;
+  }
+  dependencies(): string[] {
+    return this.hooks.dependencies ?? [];
+  }
+
+  async init(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return asResult(await this.hooks.init?.(context));
+  }
+  async start(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return asResult(await this.hooks.start?.(context));
+  }
+  async stop(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return asResult(await this.hooks.stop?.(context));
+  }
+  async pause(context: NodeLifecycleContext): Promise<Result<void, string>> {
+    return asResult(await this.hooks.pause?.(context));
+  }
+}
+
+function asResult(result: Result<void, string> | void): Result<void, string> {
+  return result ?? ok(undefined);
+}
+
+// Add a service to the node, failing the test when the node rejects it
+export async function addService(node: Node, service: AbstractService): Promise<void> {
+  const added = await node.addService(service);
+  if (!added.ok) throw new Error(`Failed to add ${service.path()}: ${added.error}`);
+}
+
+export function anyValue(value: unknown): AnyValue {
+  const av = AnyValue.from(value);
+  if (!av.ok) throw av.error;
+  return av.value as AnyValue;
+}
+
+// Plain value of an AnyValue; a missing value is null
+export function plain<T>(value: AnyValue | undefined): T {
+  const plainValue = (value ?? AnyValue.null()).as<T>();
+  if (!plainValue.ok) throw plainValue.error;
+  return plainValue.value;
+}
+
+// Plain value of a successful AnyValue result
+export function valueOf<T>(result: Result<AnyValue, string>): T {
+  if (!result.ok) throw new Error(`Expected ok, got ${result.error}`);
+  return plain<T>(result.value);
+}
+
+export async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}